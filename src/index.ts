@@ -1,4 +1,16 @@
 export { GameEngine } from './model/game-engine'
 export { Solver } from './model/field-solver'
+export { IncrementalSolver } from './model/incremental-solver'
+export { BoardAnalyzer } from './model/board-analyzer'
+export { AutoPlayer } from './model/auto-player'
+export { Replay } from './model/replay'
+export { GameSession } from './model/game-session'
+export { RaceCoordinator } from './model/race-coordinator'
+export { CoopCoordinator } from './model/coop-coordinator'
+export { InMemoryTransport, InMemoryClient } from './model/in-memory-transport'
+export { Puzzle } from './model/puzzle'
+export { BoardCode } from './model/board-code'
+export { SeededRandom } from './lib/random'
 
+export * from './model/errors'
 export * from './model/types'
\ No newline at end of file
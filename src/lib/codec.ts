@@ -0,0 +1,79 @@
+const BASE64_ALPHABET =
+	'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+
+// base64url без паддинга, чтобы строку можно было вставлять в url
+export const encodeBase64Url = (bytes: Uint8Array): string => {
+	let result = ''
+	for (let i = 0; i < bytes.length; i += 3) {
+		const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2]
+		const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6))
+		for (let j = 0; j < chars; j++) {
+			result += BASE64_ALPHABET[(chunk >> (18 - j * 6)) & 63]
+		}
+	}
+	return result
+}
+
+// Возвращает null, если строка не является корректным base64url
+export const decodeBase64Url = (input: string): Uint8Array | null => {
+	if (input.length % 4 === 1) return null
+
+	const bytes = new Uint8Array(Math.floor((input.length * 6) / 8))
+	let buffer = 0
+	let bits = 0
+	let index = 0
+
+	for (const char of input) {
+		const value = BASE64_ALPHABET.indexOf(char)
+		if (value === -1) return null
+
+		buffer = ((buffer << 6) | value) & 0xffffff
+		bits += 6
+		if (bits >= 8) {
+			bits -= 8
+			bytes[index++] = (buffer >> bits) & 0xff
+		}
+	}
+
+	return bytes
+}
+
+// FNV-1a, 32 бита. Для обнаружения поврежденных данных, не для защиты
+export const checksum = (bytes: Uint8Array): number => {
+	let hash = 0x811c9dc5
+	for (const byte of bytes) {
+		hash ^= byte
+		hash = Math.imul(hash, 0x01000193)
+	}
+	return hash >>> 0
+}
+
+// JSON только из ASCII-символов: остальные экранируются как \uXXXX,
+// поэтому байты строки совпадают с ее символами без TextEncoder
+export const encodeAsciiJson = (value: unknown): Uint8Array => {
+	const json = JSON.stringify(value).replace(
+		/[\u007f-\uffff]/g,
+		char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+	)
+	return Uint8Array.from(json, char => char.charCodeAt(0))
+}
+
+export const decodeAsciiJson = (bytes: Uint8Array): unknown => {
+	return JSON.parse(String.fromCharCode(...bytes))
+}
+
+// Упаковка булевых флагов по одному биту
+export const packBits = (bits: boolean[]): Uint8Array => {
+	const bytes = new Uint8Array(Math.ceil(bits.length / 8))
+	bits.forEach((bit, i) => {
+		if (bit) bytes[i >> 3] |= 1 << (i & 7)
+	})
+	return bytes
+}
+
+export const unpackBits = (bytes: Uint8Array, length: number): boolean[] => {
+	return Array.from(
+		{ length },
+		(_, i) => (bytes[i >> 3] & (1 << (i & 7))) !== 0
+	)
+}
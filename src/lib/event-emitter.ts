@@ -0,0 +1,36 @@
+type Handler<T> = (payload: T) => void
+
+// Типизированный эмиттер: карта событий задает тип данных каждого события
+export class EventEmitter<Events extends object> {
+	private handlers: Map<keyof Events, Set<Handler<never>>>
+
+	constructor() {
+		this.handlers = new Map()
+	}
+
+	// Возвращает функцию отписки
+	public on<K extends keyof Events>(
+		event: K,
+		handler: Handler<Events[K]>
+	): () => void {
+		const handlers = this.handlers.get(event) ?? new Set()
+		handlers.add(handler)
+		this.handlers.set(event, handlers)
+
+		return () => this.off(event, handler)
+	}
+
+	public off<K extends keyof Events>(event: K, handler: Handler<Events[K]>) {
+		this.handlers.get(event)?.delete(handler)
+	}
+
+	public emit<K extends keyof Events>(event: K, payload: Events[K]) {
+		const handlers = this.handlers.get(event)
+		if (!handlers) return
+
+		// Копия: обработчик может отписаться прямо во время вызова
+		for (const handler of [...handlers]) {
+			;(handler as Handler<Events[K]>)(payload)
+		}
+	}
+}
@@ -0,0 +1,47 @@
+// Генератор псевдослучайных чисел с зерном (mulberry32).
+// Только целочисленная арифметика, поэтому последовательность
+// одинакова во всех JS-средах
+export class SeededRandom {
+	readonly seed: number
+	private current: number
+
+	constructor(seed: string | number) {
+		this.seed = SeededRandom.hashSeed(seed)
+		this.current = this.seed
+	}
+
+	// Строки хэшируются в 32-битное зерно (FNV-1a), числа приводятся к uint32
+	static hashSeed(seed: string | number): number {
+		if (typeof seed === 'number') return seed >>> 0
+
+		let hash = 0x811c9dc5
+		for (let i = 0; i < seed.length; i++) {
+			hash ^= seed.charCodeAt(i)
+			hash = Math.imul(hash, 0x01000193)
+		}
+		return hash >>> 0
+	}
+
+	// Случайное зерно для партий, где его не задали явно
+	static randomSeed(): number {
+		return Math.floor(Math.random() * 2 ** 32)
+	}
+
+	// Стрелочная функция: можно передавать как rng без bind
+	public next = (): number => {
+		this.current = (this.current + 0x6d2b79f5) >>> 0
+		let t = this.current
+		t = Math.imul(t ^ (t >>> 15), t | 1)
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+
+	// Внутреннее состояние, для сохранения и восстановления партии
+	public get state(): number {
+		return this.current
+	}
+
+	public set state(value: number) {
+		this.current = value >>> 0
+	}
+}
@@ -1,4 +1,37 @@
-import { Position } from '../model/types'
+import {
+	BoundaryMode,
+	FieldType,
+	FirstClickPolicy,
+	FlagOwnership,
+	GameMode,
+	GameStatus,
+	HexLayout,
+	Position,
+} from '../model/types'
+
+// Допустимые значения полей конфигурации, для проверки сохранений и логов
+export const FIELD_TYPES: FieldType[] = ['square', 'hex', 'triangle']
+export const HEX_LAYOUTS: HexLayout[] = [
+	'odd-r',
+	'even-r',
+	'odd-q',
+	'even-q',
+	'axial',
+]
+export const GAME_MODES: GameMode[] = ['guessing', 'no-guessing']
+export const FIRST_CLICK_POLICIES: FirstClickPolicy[] = [
+	'safe-cell',
+	'safe-opening',
+	'none',
+]
+export const FLAG_OWNERSHIPS: FlagOwnership[] = ['owner', 'shared']
+export const BOUNDARY_MODES: BoundaryMode[] = [
+	'clip',
+	'wrap',
+	'wrap-horizontal',
+	'wrap-vertical',
+]
+export const GAME_STATUSES: GameStatus[] = Object.values(GameStatus)
 
 export const createGrid = <T>(
 	rows: number,
@@ -29,3 +62,57 @@ export const parseKey = (key: string): Position => {
 	const [col, row] = key.split('-').map(Number)
 	return { col, row }
 }
+
+// Позиция клетки в текстах подсказок и ошибок
+export const formatPosition = ({ row, col }: Position) => `(${row}, ${col})`
+
+// Ближайшая к центру поля позиция, для которой fits истинно.
+// На поле без дыр это сам центр
+export const findCenter = (
+	rows: number,
+	cols: number,
+	fits: (position: Position) => boolean
+): Position | null => {
+	const center = { row: Math.floor(rows / 2), col: Math.floor(cols / 2) }
+	const distance = ({ row, col }: Position) =>
+		(row - center.row) ** 2 + (col - center.col) ** 2
+
+	return createGrid(rows, cols, position => position)
+		.flat()
+		.filter(fits)
+		.reduce<Position | null>(
+			(best, position) =>
+				!best || distance(position) < distance(best) ? position : best,
+			null
+		)
+}
+
+// Логарифм числа способов разложить m мин по n клеткам, не больше capacity
+// в клетке: table[n][m], n <= cells, m <= mines. -Infinity - разложить нельзя.
+// Сами числа огромны, поэтому считаем в логарифмах
+export const logArrangements = (
+	cells: number,
+	mines: number,
+	capacity: number
+): number[][] => {
+	const table = [
+		Array.from({ length: mines + 1 }, (_, m) => (m === 0 ? 0 : -Infinity)),
+	]
+
+	for (let n = 1; n <= cells; n++) {
+		const prev = table[n - 1]
+		table.push(
+			prev.map((_, m) =>
+				logSumExp(prev.slice(Math.max(0, m - capacity), m + 1))
+			)
+		)
+	}
+
+	return table
+}
+
+const logSumExp = (values: number[]): number => {
+	const max = Math.max(...values)
+	if (max === -Infinity) return -Infinity
+	return max + Math.log(values.reduce((acc, v) => acc + Math.exp(v - max), 0))
+}
@@ -0,0 +1,45 @@
+// Стек отмены/повтора ограниченной глубины
+export class ActionHistory<T> {
+	private past: T[]
+	private future: T[]
+	private depth: number
+
+	constructor(depth: number) {
+		this.past = []
+		this.future = []
+		this.depth = Math.max(0, depth)
+	}
+
+	// Новое действие обрывает ветку повторов
+	public push(entry: T) {
+		if (this.depth === 0) return
+
+		this.past.push(entry)
+		if (this.past.length > this.depth) this.past.shift()
+		this.future = []
+	}
+
+	public undo(): T | null {
+		const entry = this.past.pop()
+		if (!entry) return null
+
+		this.future.push(entry)
+		return entry
+	}
+
+	public redo(): T | null {
+		const entry = this.future.pop()
+		if (!entry) return null
+
+		this.past.push(entry)
+		return entry
+	}
+
+	public get canUndo() {
+		return this.past.length > 0
+	}
+
+	public get canRedo() {
+		return this.future.length > 0
+	}
+}
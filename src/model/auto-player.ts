@@ -0,0 +1,200 @@
+import { createKey, findCenter } from '../lib/utils'
+import { FieldFactory } from './field-factory'
+import { GameEngine } from './game-engine'
+import { GUESS_STRATEGIES } from './guess-strategies'
+import { toPlayerCell } from './player-view'
+import {
+	AutoPlayerMove,
+	AutoPlayerOptions,
+	AutoPlayerRun,
+	BenchmarkOptions,
+	BenchmarkSummary,
+	GameStatus,
+	GuessStrategy,
+	MineProbability,
+	MineSweeperConfig,
+	Position,
+} from './types'
+
+const DEFAULT_BENCHMARK_GAMES = 100
+
+// Доводит партию до конца: сначала верные ходы по решателю,
+// а когда их нет - догадка по выбранной стратегии
+export class AutoPlayer {
+	private engine: GameEngine
+	private strategy: GuessStrategy
+	private start?: Position
+	private flagMines: boolean
+
+	// Верные ходы из последнего решения. Безопасная клетка остается
+	// безопасной при любых следующих ходах, поэтому решатель не перезапускаем
+	private safeCells: MineProbability[]
+	private mineCells: MineProbability[]
+
+	constructor(
+		engine: GameEngine,
+		{
+			strategy = 'lowest-probability',
+			start,
+			flagMines = false,
+		}: AutoPlayerOptions = {}
+	) {
+		this.engine = engine
+		this.strategy =
+			typeof strategy === 'function' ? strategy : GUESS_STRATEGIES[strategy]
+		this.start = start
+		this.flagMines = flagMines
+		this.safeCells = []
+		this.mineCells = []
+	}
+
+	// Делает один ход. null, если партия окончена или ходить некуда
+	public step(): AutoPlayerMove | null {
+		const snapshot = this.engine.gameSnapshot
+
+		if (snapshot.status === GameStatus.Idle) {
+			const { rows, cols } = this.engine.fieldConfig.params
+			const isCell = ({ row, col }: Position) =>
+				snapshot.field[row]?.[col]?.isHole === false
+			// Клик в дыру или за край игру не начинает - берем центр
+			const position =
+				this.start && isCell(this.start)
+					? this.start
+					: findCenter(rows, cols, isCell)!
+			const move = this.reveal('first-click', { position, value: 0 })
+			return move.status === GameStatus.Idle ? null : move
+		}
+		if (snapshot.status !== GameStatus.Playing) return null
+
+		const isClosed = ({ position: { row, col } }: MineProbability) => {
+			const cell = snapshot.field[row][col]
+			return !cell.isRevealed && !cell.isFlagged
+		}
+
+		this.safeCells = this.safeCells.filter(isClosed)
+		this.mineCells = this.mineCells.filter(isClosed)
+
+		const certainMove = this.getCertainMove()
+		if (certainMove) return certainMove
+
+		const probabilities = this.engine.getProbabilities().filter(isClosed)
+		this.safeCells = probabilities.filter(prob => prob.value === 0)
+		this.mineCells = probabilities.filter(prob => prob.value === 1)
+
+		return this.getCertainMove() ?? this.guess(probabilities)
+	}
+
+	// Играет до победы или поражения
+	public run(): AutoPlayerRun {
+		const startedAt = Date.now()
+		let moves = 0
+		let guesses = 0
+
+		for (let move = this.step(); move; move = this.step()) {
+			moves++
+			if (move.type === 'guess') guesses++
+		}
+
+		return {
+			status: this.engine.gameSnapshot.status,
+			moves,
+			guesses,
+			elapsed: Date.now() - startedAt,
+		}
+	}
+
+	// Прогон стратегии на серии досок с зернами firstSeed, firstSeed + 1, ...
+	static benchmark(
+		config: Omit<MineSweeperConfig, 'seed' | 'rng'>,
+		{
+			games = DEFAULT_BENCHMARK_GAMES,
+			firstSeed = 1,
+			...options
+		}: BenchmarkOptions = {}
+	): BenchmarkSummary {
+		let wins = 0
+		let guesses = 0
+		let moves = 0
+		let elapsed = 0
+
+		for (let i = 0; i < games; i++) {
+			const engine = new GameEngine({ ...config, seed: firstSeed + i })
+			const result = new AutoPlayer(engine, options).run()
+
+			if (result.status === GameStatus.Won) wins++
+			guesses += result.guesses
+			moves += result.moves
+			elapsed += result.elapsed
+		}
+
+		return {
+			games,
+			wins,
+			winRate: games > 0 ? wins / games : 0,
+			guessesPerGame: games > 0 ? guesses / games : 0,
+			averageMoveTime: moves > 0 ? elapsed / moves : 0,
+		}
+	}
+
+	private getCertainMove(): AutoPlayerMove | null {
+		if (this.safeCells.length > 0) {
+			return this.reveal('reveal', this.safeCells.shift()!)
+		}
+		if (this.flagMines && this.mineCells.length > 0) {
+			return this.flag(this.mineCells.shift()!)
+		}
+		return null
+	}
+
+	private guess(probabilities: MineProbability[]): AutoPlayerMove | null {
+		const candidates = probabilities.filter(prob => prob.value < 1)
+		if (candidates.length === 0) return null
+
+		const view = this.engine.getPlayerView()
+		const field = FieldFactory.fromPlayerView(view)
+		const context = {
+			candidates,
+			view,
+			getSiblings: (position: Position) =>
+				field.getSiblings(position).map(cell => toPlayerCell(cell.getData())),
+		}
+
+		// Стратегия может вернуть клетку не из кандидатов,
+		// тогда ход ничего не изменит - берем самую безопасную
+		const pick = (strategy: GuessStrategy) => {
+			const key = createKey(strategy(context))
+			return candidates.find(prob => createKey(prob.position) === key)
+		}
+		const chosen =
+			pick(this.strategy) ?? pick(GUESS_STRATEGIES['lowest-probability'])!
+
+		return this.reveal('guess', chosen)
+	}
+
+	private reveal(
+		type: AutoPlayerMove['type'],
+		{ position, value }: MineProbability
+	): AutoPlayerMove {
+		const action = this.engine.revealCell(position)
+		action.apply()
+
+		return {
+			type,
+			position,
+			probability: value,
+			status: action.data.actionSnapshot.status,
+		}
+	}
+
+	private flag({ position, value }: MineProbability): AutoPlayerMove {
+		const action = this.engine.toggleFlag(position)
+		action.apply()
+
+		return {
+			type: 'flag',
+			position,
+			probability: value,
+			status: action.data.actionSnapshot.status,
+		}
+	}
+}
@@ -1,10 +1,13 @@
 import {
 	CellData,
+	CellDataInput,
+	ConstructorCellProps,
 	ConstrutorFieldProps,
 	FieldState,
 	GameParams,
 	Position,
 } from './types'
+import { createGrid, createKey, logArrangements } from '../lib/utils'
 import { SimpleCell } from './simple-cell'
 
 export abstract class BaseField<T extends SimpleCell> {
@@ -21,26 +24,181 @@ export abstract class BaseField<T extends SimpleCell> {
 		this.rng = rng
 	}
 
+	// Для создания клеток конкретного типа поля
+	protected abstract createCell(props: ConstructorCellProps): T
+
+	// Вспомогательные публичные методы
+	// Для создания предварительного состояния игры(класс GameEngine, Solver)
+	public abstract cloneSelf(): BaseField<T>
+
+	// Топология поля: соседи клетки, по ним считаются цифры,
+	// заливка пустых областей, аккорды и ограничения решателя
+	public abstract getSiblings(pos: Position): T[]
+
+	// Клетки, в цифрах которых учитывается эта клетка. Для симметричной
+	// окрестности это те же соседи, несимметричная переопределяет метод
+	public getDependents(pos: Position): T[] {
+		return this.getSiblings(pos)
+	}
+
 	// Для восстановления игры
-	protected abstract createGrid(data?: CellData[][]): T[][]
+	protected createGrid(data?: CellDataInput[][]): T[][] {
+		if (data) {
+			return data.map(r => r.map(c => this.createCell(c)))
+		}
+
+		const { cols, rows } = this.params
+		return createGrid(rows, cols, position => this.createCell({ position }))
+	}
+
+	// Сколько мин помещается в одну клетку
+	public get maxMinesPerCell(): number {
+		return this.params.maxMinesPerCell ?? 1
+	}
+
+	// Все клетки поля, кроме дыр (mask)
+	public get cells(): T[] {
+		return this.grid.flat().filter(cell => !cell.isHole)
+	}
+
 	// Для рассчета состояния FieldState
-	protected abstract getData(): CellData[][]
+	protected getData(): CellData[][] {
+		return this.grid.map(row => row.map(cell => cell.getData()))
+	}
 
 	// Для управления минами
-	public abstract placeMines(): void
-	public abstract relocateMine(from: Position, to: Position): void
+	// exclude - клетки, в которые мины не попадают (первый клик и его окрестность).
+	// Остальные клетки равновероятны. Если мины не помещаются, исключения игнорируются
+	public placeMines(exclude: Position[] = []) {
+		if (this.isMined) return
 
-	// Вспомогательные публичные методы
-	// Для создания предварительного состояния игры(класс GameEngine, Solver)
-	public abstract cloneSelf(): BaseField<T>
+		this.isMined = true
+		const { cols, rows, mines } = this.params
+		const avoidSet = new Set(exclude.map(createKey))
+		const free = this.cells.filter(cell => !avoidSet.has(cell.key))
+		if (free.length * this.maxMinesPerCell < mines) avoidSet.clear()
+		// В дыры мины не попадают никогда
+		this.grid
+			.flat()
+			.filter(cell => cell.isHole)
+			.forEach(cell => avoidSet.add(cell.key))
+
+		if (this.maxMinesPerCell > 1) {
+			this.placeMineCounts(this.cells.filter(cell => !avoidSet.has(cell.key)))
+			return
+		}
+
+		let minesPlacedCount = 0
+		while (minesPlacedCount < mines) {
+			const position = {
+				col: Math.floor(this.rng() * cols),
+				row: Math.floor(this.rng() * rows),
+			}
+			const hash = createKey(position)
+
+			if (!avoidSet.has(hash)) {
+				avoidSet.add(hash)
+				this.mineCell(position)
+				minesPlacedCount += 1
+			}
+		}
+	}
+
+	// Несколько мин в клетке: все раскладки (сколько мин в какой клетке)
+	// равновероятны. Число мин для каждой клетки выбирается по очереди
+	// с весом числа способов разложить остаток по следующим клеткам
+	private placeMineCounts(cells: T[]) {
+		const capacity = this.maxMinesPerCell
+		const ways = logArrangements(cells.length, this.params.mines, capacity)
+		let remaining = this.params.mines
+
+		cells.forEach((cell, index) => {
+			const rest = ways[cells.length - index - 1]
+			const total = ways[cells.length - index][remaining]
+			let roll = this.rng()
+			let count = 0
+			while (count < Math.min(capacity, remaining)) {
+				roll -= Math.exp(rest[remaining - count] - total)
+				if (roll < 0) break
+				count++
+			}
+
+			for (let i = 0; i < count; i++) this.mineCell(cell.position)
+			remaining -= count
+		})
+	}
+
+	public relocateMine(from: Position, to: Position) {
+		this.unMineCell(from)
+		this.mineCell(to)
+	}
+
+	// Убирает мины из заданных клеток, перенося их в случайные клетки с местом.
+	// Для заранее заминированного поля (data), где placeMines уже не сработает
+	public clearArea(positions: Position[]) {
+		const excluded = new Set(positions.map(createKey))
+		const targets = this.cells.filter(
+			cell => cell.mineCount < this.maxMinesPerCell && !excluded.has(cell.key)
+		)
+
+		for (const position of positions) {
+			const cell = this.getCell(position)
+			while (cell.isMine && targets.length > 0) {
+				const index = Math.floor(this.rng() * targets.length)
+				const target = targets[index]
+				this.relocateMine(position, target.position)
+				if (target.mineCount >= this.maxMinesPerCell) targets.splice(index, 1)
+			}
+		}
+	}
+
+	// Пересчет цифр по текущей раскладке мин (при восстановлении из сохранения)
+	public recountAdjacentMines() {
+		for (const cell of this.cells) {
+			cell.adjacentMines = this.getSiblings(cell.position).reduce(
+				(sum, sib) => sum + sib.mineCount,
+				0
+			)
+		}
+	}
 
 	// Для управления полем извне (класс GameEngine, Solver), мутируемые клетки
-	public abstract getSiblings(pos: Position): T[]
-	public abstract getAreaToReveal(pos: Position): T[]
-	public abstract getCell(pos: Position): T
+	public getAreaToReveal(position: Position): T[] {
+		const { cols, rows } = this.params
+
+		const target = this.getCell(position)
+
+		if (!target.isEmpty || target.isMine) return [target]
+
+		const result: T[] = []
+		const queue: T[] = [target]
+		const visited: boolean[][] = createGrid(rows, cols, () => false)
+
+		while (queue.length > 0) {
+			const cell = queue.shift()!
+			const { col, row } = cell.position
+
+			if (visited[row][col]) continue
+			if (cell.isEmpty) {
+				const siblings = this.getSiblings(cell.position)
+				queue.push(...siblings)
+			}
+
+			visited[row][col] = true
+			result.push(cell)
+		}
+
+		return result
+	}
+
+	public getCell({ row, col }: Position): T {
+		return this.grid[row][col]
+	}
 
 	// Для ui. Не мутирующие поле данные
-	public abstract getCellData(position: Position): CellData
+	public getCellData(position: Position): CellData {
+		return this.getCell(position).getData()
+	}
 
 	// Предоставляем наружу не мутирующие поле данные (CellData)
 	public getState(): FieldState {
@@ -50,6 +208,7 @@ export abstract class BaseField<T extends SimpleCell> {
 			minedCells: [],
 			explodedCells: [],
 			flaggedCells: [],
+			questionedCells: [],
 			notFoundMines: [],
 			errorFlags: [],
 			revealedCells: [],
@@ -57,8 +216,10 @@ export abstract class BaseField<T extends SimpleCell> {
 		}
 
 		return data.flat().reduce<FieldState>((acc, cell) => {
+			if (cell.isHole) return acc
 			if (cell.isMine) acc.minedCells.push(cell)
 			if (cell.isFlagged) acc.flaggedCells.push(cell)
+			if (cell.isQuestioned) acc.questionedCells.push(cell)
 			if (cell.isRevealed) acc.revealedCells.push(cell)
 			if (cell.isExploded) acc.explodedCells.push(cell)
 			if (cell.isMissed) acc.errorFlags.push(cell)
@@ -67,4 +228,26 @@ export abstract class BaseField<T extends SimpleCell> {
 			return acc
 		}, acc)
 	}
+
+	/* ------------- Вспомогательные методы ------------- */
+	protected mineCell(position: Position) {
+		this.getCell(position).mineCount++
+		this.getDependents(position).forEach(sib => sib.adjacentMines++)
+	}
+
+	protected unMineCell(position: Position) {
+		this.getCell(position).mineCount--
+		this.getDependents(position).forEach(sib => sib.adjacentMines--)
+	}
+
+	// Дыра (mask) соседом не считается, как и клетка за краем поля
+	protected isInBoundary({ row, col }: Position): boolean {
+		return (
+			col >= 0 &&
+			row >= 0 &&
+			col < this.params.cols &&
+			row < this.params.rows &&
+			!this.grid[row][col].isHole
+		)
+	}
 }
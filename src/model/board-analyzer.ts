@@ -0,0 +1,180 @@
+import { BaseField } from './base-field'
+import { BoardMetrics } from './board-metrics'
+import { FieldFactory } from './field-factory'
+import { RegionSolver } from './region-solver'
+import { SimpleCell } from './simple-cell'
+import {
+	BoardAnalysis,
+	FactoryConfig,
+	MineProbability,
+	Position,
+	SolvabilityCheck,
+} from './types'
+
+interface Simulation extends SolvabilityCheck {
+	forcedGuesses: number
+}
+
+// Оценивает сложность уже заминированной доски (config.data)
+export class BoardAnalyzer {
+	private field: BaseField<SimpleCell>
+
+	constructor(config: FactoryConfig) {
+		this.field = FieldFactory.create(config)
+	}
+
+	public analyze(start: Position): BoardAnalysis {
+		const { bbbv } = BoardMetrics.measure(this.field)
+		const { isSolvable, forcedGuesses } = this.simulate(start, false)
+
+		return {
+			bbbv,
+			openings: BoardMetrics.findOpenings(this.field).length,
+			isolatedNumbers: BoardMetrics.findIsolatedNumbers(this.field).length,
+			isSolvable,
+			forcedGuesses,
+		}
+	}
+
+	// Быстрая проверка: останавливается на первой вынужденной догадке
+	public isSolvableFrom(start: Position): boolean {
+		return this.simulate(start, true).isSolvable
+	}
+
+	// То же от уже открытых в data клеток (головоломка), без стартового клика
+	public isSolvableFromRevealed(): boolean {
+		return this.simulate(null, true).isSolvable
+	}
+
+	// То же, что isSolvableFrom, плюс клетки, на которых решатель застрял
+	public checkFrom(start: Position): SolvabilityCheck {
+		const { isSolvable, guessCells } = this.simulate(start, true)
+		return { isSolvable, guessCells }
+	}
+
+	// Прогоняем решатель на копии поля: открываем все, что он считает
+	// гарантированно безопасным. Когда таких клеток нет, решатель угадывает
+	// клетку с наименьшей вероятностью мины, и догадка считается удачной
+	private simulate(start: Position | null, stopOnGuess: boolean): Simulation {
+		const probe = this.field.cloneSelf()
+		const regions = new RegionSolver(probe)
+		const safeCount = probe.cells.filter(cell => !cell.isMine).length
+		const knownMines = new Set<string>()
+
+		// Мина под стартовой клеткой - решателю придется начать с догадки
+		let forcedGuesses = 0
+		let guessCells: Position[] = []
+		let revealedCount = probe.cells.filter(
+			cell => cell.isRevealed && !cell.isMine
+		).length
+		if (start && !probe.getCell(start).isMine) {
+			revealedCount += this.reveal(probe, start)
+		}
+
+		while (revealedCount < safeCount) {
+			// Сначала дешевые правила по одной цифре, точный перебор -
+			// только когда они ничего не дают
+			const deduced = this.applyRules(probe, knownMines)
+			if (deduced.length > 0) {
+				for (const position of deduced) {
+					revealedCount += this.reveal(probe, position)
+				}
+				continue
+			}
+
+			const closed = this.solve(probe, regions)
+			const safeCells = closed.filter(prob => prob.value === 0)
+
+			if (safeCells.length > 0) {
+				for (const { position } of safeCells) {
+					revealedCount += this.reveal(probe, position)
+				}
+				continue
+			}
+
+			if (forcedGuesses === 0) {
+				guessCells = closed
+					.filter(prob => prob.value < 1 && this.isFrontier(probe, prob))
+					.map(prob => prob.position)
+			}
+			forcedGuesses++
+			if (stopOnGuess) break
+
+			const guess = closed
+				.filter(prob => !probe.getCell(prob.position).isMine)
+				.reduce((min, prob) => (prob.value < min.value ? prob : min))
+			revealedCount += this.reveal(probe, guess.position)
+		}
+
+		return { isSolvable: forcedGuesses === 0, forcedGuesses, guessCells }
+	}
+
+	// Правила по одной цифре: все мины вокруг уже известны - остальные
+	// соседи безопасны; закрытых соседей ровно на оставшиеся мины - все
+	// они заминированы до предела. Найденные мины копятся в knownMines
+	private applyRules(
+		probe: BaseField<SimpleCell>,
+		knownMines: Set<string>
+	): Position[] {
+		const capacity = probe.maxMinesPerCell
+		const safe = new Map<string, Position>()
+		let changed = true
+
+		while (changed && safe.size === 0) {
+			changed = false
+			for (const cell of probe.cells) {
+				if (!cell.isRevealed) continue
+
+				const closed = probe
+					.getSiblings(cell.position)
+					.filter(sibling => !sibling.isRevealed)
+				const unknown = closed.filter(sib => !knownMines.has(sib.key))
+				if (unknown.length === 0) continue
+
+				const left =
+					cell.adjacentMines - (closed.length - unknown.length) * capacity
+				if (left === 0) {
+					unknown.forEach(sib => safe.set(sib.key, sib.position))
+				} else if (left === unknown.length * capacity) {
+					unknown.forEach(sib => knownMines.add(sib.key))
+					changed = true
+				}
+			}
+		}
+
+		return [...safe.values()]
+	}
+
+	// Точные вероятности закрытых клеток, как у Solver.solve(), но без
+	// пересборки поля: RegionSolver читает только открытые цифры копии
+	private solve(
+		probe: BaseField<SimpleCell>,
+		regions: RegionSolver
+	): MineProbability[] {
+		const probabilities = regions.solveField()
+
+		return probe.cells
+			.filter(cell => !cell.isRevealed)
+			.map(cell => ({
+				position: cell.position,
+				value: probabilities.get(cell.key) ?? 0,
+			}))
+	}
+
+	private isFrontier(
+		probe: BaseField<SimpleCell>,
+		{ position }: MineProbability
+	): boolean {
+		return probe.getSiblings(position).some(sibling => sibling.isRevealed)
+	}
+
+	private reveal(field: BaseField<SimpleCell>, pos: Position): number {
+		let count = 0
+		for (const cell of field.getAreaToReveal(pos)) {
+			if (cell.isRevealed) continue
+			cell.isRevealed = true
+			count++
+		}
+		return count
+	}
+}
@@ -0,0 +1,123 @@
+import { checksum, decodeBase64Url, encodeBase64Url } from '../lib/codec'
+import { InvalidFormatError, UnsupportedVersionError } from './errors'
+import {
+	BoardInfo,
+	BoundaryMode,
+	FieldType,
+	FirstClickPolicy,
+	GameMode,
+	HexLayout,
+} from './types'
+
+// Код доски (base64url, 15 байт = 20 символов):
+// [версия][тип поля][правила][rows: 2][cols: 2][mines: 2][seed: 4][контроль: 2]
+// Байт правил: биты 0-2 - раскладка hex / края square,
+// биты 3-4 - политика первого клика, бит 5 - режим без угадываний
+const CODE_SIZE = 15
+const BOARD_CODE_VERSION = 2
+
+// Таблицы кода: индекс в массиве - значение в байте, порядок менять нельзя.
+// Поэтому они свои, а не общие списки из lib/utils
+const FIELD_TYPES: FieldType[] = ['square', 'hex', 'triangle']
+const HEX_LAYOUTS: (HexLayout | undefined)[] = [
+	undefined,
+	'odd-r',
+	'even-r',
+	'odd-q',
+	'even-q',
+	'axial',
+]
+// Для square третий байт - режим краев. 0 - обрезанные, как в старых кодах
+const BOUNDARY_MODES: (BoundaryMode | undefined)[] = [
+	undefined,
+	'wrap',
+	'wrap-horizontal',
+	'wrap-vertical',
+]
+// Индекс 0 - политика по умолчанию
+const FIRST_CLICK_POLICIES: FirstClickPolicy[] = [
+	'safe-cell',
+	'safe-opening',
+	'none',
+]
+const GAME_MODES: GameMode[] = ['guessing', 'no-guessing']
+
+export class BoardCode {
+	static encode({
+		type,
+		params,
+		layout,
+		boundary,
+		mode = 'guessing',
+		firstClick = 'safe-cell',
+		seed,
+	}: BoardInfo): string {
+		const bytes = new Uint8Array(CODE_SIZE)
+		const view = new DataView(bytes.buffer)
+
+		view.setUint8(0, BOARD_CODE_VERSION)
+		view.setUint8(1, FIELD_TYPES.indexOf(type))
+		const variant =
+			type === 'square'
+				? BOUNDARY_MODES.indexOf(boundary)
+				: HEX_LAYOUTS.indexOf(layout)
+		const rules =
+			Math.max(0, variant) |
+			(FIRST_CLICK_POLICIES.indexOf(firstClick) << 3) |
+			(GAME_MODES.indexOf(mode) << 5)
+		view.setUint8(2, rules)
+		view.setUint16(3, params.rows)
+		view.setUint16(5, params.cols)
+		view.setUint16(7, params.mines)
+		view.setUint32(9, seed >>> 0)
+		view.setUint16(13, checksum(bytes.subarray(0, 13)) & 0xffff)
+
+		return encodeBase64Url(bytes)
+	}
+
+	static decode(code: string): BoardInfo {
+		const bytes = decodeBase64Url(code.trim())
+		if (!bytes || bytes.length !== CODE_SIZE) {
+			throw new InvalidFormatError('Board code is malformed')
+		}
+
+		const view = new DataView(bytes.buffer)
+		if (view.getUint16(13) !== (checksum(bytes.subarray(0, 13)) & 0xffff)) {
+			throw new InvalidFormatError('Board code is mistyped or corrupted')
+		}
+
+		const version = view.getUint8(0)
+		if (version !== BOARD_CODE_VERSION) {
+			throw new UnsupportedVersionError(version)
+		}
+
+		const type = FIELD_TYPES[view.getUint8(1)]
+		const variants = type === 'square' ? BOUNDARY_MODES : HEX_LAYOUTS
+		const rules = view.getUint8(2)
+		const variant = rules & 0b111
+		if (!type || variant >= variants.length) {
+			throw new InvalidFormatError('Board code has an unknown field type')
+		}
+
+		const firstClick = FIRST_CLICK_POLICIES[(rules >> 3) & 0b11]
+		const mode = GAME_MODES[(rules >> 5) & 0b1]
+		if (!firstClick || rules >> 6 !== 0) {
+			throw new InvalidFormatError('Board code has unknown game rules')
+		}
+
+		return {
+			type,
+			...(type === 'square'
+				? { boundary: BOUNDARY_MODES[variant] }
+				: { layout: HEX_LAYOUTS[variant] }),
+			mode,
+			firstClick,
+			params: {
+				rows: view.getUint16(3),
+				cols: view.getUint16(5),
+				mines: view.getUint16(7),
+			},
+			seed: view.getUint32(9),
+		}
+	}
+}
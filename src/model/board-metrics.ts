@@ -0,0 +1,67 @@
+import { BaseField } from './base-field'
+import { SimpleCell } from './simple-cell'
+
+interface BoardBenchmark {
+	bbbv: number
+	solved: number
+}
+
+// 3BV (Bechtel's Board Benchmark) - минимальное число кликов без флагов,
+// за которое открывается вся доска: по клику на каждое окно
+// и на каждую цифру, которая не граничит ни с одним окном
+export class BoardMetrics {
+	static measure(field: BaseField<SimpleCell>): BoardBenchmark {
+		const openings = this.findOpenings(field)
+		const isolated = this.findIsolatedNumbers(field)
+
+		// Окно открывается целиком, поэтому достаточно одной его клетки
+		const solvedOpenings = openings.filter(opening =>
+			opening.some(cell => cell.isRevealed)
+		)
+		const solvedNumbers = isolated.filter(cell => cell.isRevealed)
+
+		return {
+			bbbv: openings.length + isolated.length,
+			solved: solvedOpenings.length + solvedNumbers.length,
+		}
+	}
+
+	// Окна - связные области пустых клеток (без мин и цифр)
+	static findOpenings(field: BaseField<SimpleCell>): SimpleCell[][] {
+		const visited = new Set<string>()
+		const openings: SimpleCell[][] = []
+
+		for (const cell of field.cells) {
+			if (!cell.isEmpty || visited.has(cell.key)) continue
+
+			const opening: SimpleCell[] = []
+			const queue = [cell]
+			visited.add(cell.key)
+
+			while (queue.length > 0) {
+				const current = queue.pop()!
+				opening.push(current)
+
+				for (const sibling of field.getSiblings(current.position)) {
+					if (!sibling.isEmpty || visited.has(sibling.key)) continue
+					visited.add(sibling.key)
+					queue.push(sibling)
+				}
+			}
+
+			openings.push(opening)
+		}
+
+		return openings
+	}
+
+	// Цифры, которые не открываются ни одним окном
+	static findIsolatedNumbers(field: BaseField<SimpleCell>): SimpleCell[] {
+		return field.cells.filter(
+			cell =>
+				!cell.isMine &&
+				!cell.isEmpty &&
+				!field.getDependents(cell.position).some(sibling => sibling.isEmpty)
+		)
+	}
+}
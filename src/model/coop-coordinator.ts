@@ -0,0 +1,117 @@
+import { GameEngine } from './game-engine'
+import {
+	ActionResult,
+	CoopOptions,
+	CoopScoring,
+	GameStatus,
+	PlayerScore,
+	Position,
+	StateUpdate,
+	TurnOrder,
+} from './types'
+
+type Tally = {
+	revealedCells: number
+	explodedCells: number
+}
+
+const DEFAULT_SCORING: Required<CoopScoring> = {
+	reveal: 1,
+	flag: 1,
+	explode: -10,
+}
+
+// Совместная игра на одном движке: каждый ход подписан игроком,
+// очки считаются по ActionChanges.actor. Undo вычитает отмененное
+export class CoopCoordinator {
+	private engine: GameEngine
+	private players: string[]
+	private turnOrder: TurnOrder
+	private scoring: Required<CoopScoring>
+
+	private turn: number
+	private tallies: Map<string, Tally>
+	private unsubscribe: () => void
+
+	constructor(
+		engine: GameEngine,
+		{ players, turnOrder = 'free', scoring = {} }: CoopOptions
+	) {
+		this.engine = engine
+		this.players = [...new Set(players)]
+		this.turnOrder = turnOrder
+		this.scoring = { ...DEFAULT_SCORING, ...scoring }
+		this.turn = 0
+		this.tallies = new Map(
+			this.players.map(playerId => [
+				playerId,
+				{ revealedCells: 0, explodedCells: 0 },
+			])
+		)
+		this.unsubscribe = engine.subscribe(update => this.update(update))
+	}
+
+	// Чей сейчас ход. null, если ходят все
+	get currentPlayer(): string | null {
+		if (this.turnOrder === 'free') return null
+		return this.players[this.turn] ?? null
+	}
+
+	get scores(): PlayerScore[] {
+		const { status, flaggedCells } = this.engine.gameSnapshot
+		const isOver = status === GameStatus.Won || status === GameStatus.Lost
+
+		return this.players.map(playerId => {
+			const { revealedCells, explodedCells } = this.tallies.get(playerId)!
+			const flags = flaggedCells.filter(cell => cell.flaggedBy === playerId)
+			// Верность флага раньше конца партии выдала бы мины
+			const correctFlags = isOver ? flags.filter(cell => cell.isMine).length : 0
+
+			return {
+				playerId,
+				revealedCells,
+				explodedCells,
+				flags: flags.length,
+				correctFlags,
+				score:
+					revealedCells * this.scoring.reveal +
+					correctFlags * this.scoring.flag +
+					explodedCells * this.scoring.explode,
+			}
+		})
+	}
+
+	// Ход игрока. null, если игрок не участвует или сейчас не его ход
+	public revealCell(playerId: string, pos: Position): ActionResult | null {
+		if (!this.canAct(playerId)) return null
+		return this.engine.revealCell(pos, playerId)
+	}
+
+	public toggleFlag(playerId: string, pos: Position): ActionResult | null {
+		if (!this.canAct(playerId)) return null
+		return this.engine.toggleFlag(pos, playerId)
+	}
+
+	// Отключает подсчет от движка
+	public close() {
+		this.unsubscribe()
+	}
+
+	private canAct(playerId: string): boolean {
+		if (!this.tallies.has(playerId)) return false
+		return this.currentPlayer === null || this.currentPlayer === playerId
+	}
+
+	private update({ source, changes }: StateUpdate) {
+		const tally = changes.actor ? this.tallies.get(changes.actor) : undefined
+		if (!tally) return
+
+		const sign = source === 'undo' ? -1 : 1
+		tally.revealedCells += sign * changes.revealedCells.length
+		tally.explodedCells += sign * changes.explodedCells.length
+
+		if (source === 'action' && changes.actor === this.currentPlayer) {
+			this.turn = (this.turn + 1) % this.players.length
+		}
+	}
+}
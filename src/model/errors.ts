@@ -0,0 +1,79 @@
+import { PuzzleIssue } from './types'
+
+// Базовая ошибка восстановления игры из сохранения
+export class SerializationError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'SerializationError'
+	}
+}
+
+// Строка не похожа на сохранение: не base64url, нет сигнатуры, битый заголовок
+export class InvalidFormatError extends SerializationError {
+	constructor(message: string) {
+		super(message)
+		this.name = 'InvalidFormatError'
+	}
+}
+
+// Сохранение сделано версией формата, которую мы не умеем читать
+export class UnsupportedVersionError extends SerializationError {
+	readonly version: number
+
+	constructor(version: number) {
+		super(`Unsupported save format version: ${version}`)
+		this.name = 'UnsupportedVersionError'
+		this.version = version
+	}
+}
+
+// Данные повреждены: контрольная сумма не совпадает
+export class ChecksumMismatchError extends SerializationError {
+	constructor() {
+		super('Save data is corrupted: checksum mismatch')
+		this.name = 'ChecksumMismatchError'
+	}
+}
+
+// Формат корректен, но содержимое противоречит параметрам игры
+export class DataMismatchError extends SerializationError {
+	constructor(message: string) {
+		super(message)
+		this.name = 'DataMismatchError'
+	}
+}
+
+// Маска поля не читается или не подходит к параметрам игры
+export class InvalidMaskError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'InvalidMaskError'
+	}
+}
+
+// Окрестность не задана пресетом и не является списком целых смещений
+export class InvalidNeighbourhoodError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'InvalidNeighbourhoodError'
+	}
+}
+
+// Головоломка не прошла проверку (см. Puzzle.validate)
+export class InvalidPuzzleError extends Error {
+	readonly issues: PuzzleIssue[]
+
+	constructor(issues: PuzzleIssue[]) {
+		super(`Puzzle is invalid: ${issues.map(issue => issue.message).join('; ')}`)
+		this.name = 'InvalidPuzzleError'
+		this.issues = issues
+	}
+}
+
+// Гонку нельзя собрать: нет игроков или их id повторяются
+export class InvalidRaceError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'InvalidRaceError'
+	}
+}
@@ -1,15 +1,83 @@
+import { createGrid } from '../lib/utils'
+import { FieldMask } from './field-mask'
+import { HexField } from './hex-field'
+import { SimpleCell } from './simple-cell'
 import { SquareField } from './square-field'
-import { FactoryConfig } from './types'
+import { TriangleField } from './triangle-field'
+import { CellDataInput, FactoryConfig, PlayerView, SavedCell } from './types'
 
 export class FieldFactory {
-	static create(config: FactoryConfig) {
+	// Поле без мин (или из data). Мины расставляет вызывающая сторона,
+	// чтобы учесть первый клик (см. BaseField.placeMines)
+	static create({ mask, ...config }: FactoryConfig) {
+		const data = mask
+			? this.applyMask(config, FieldMask.parse(mask, config.params))
+			: config.data
+
 		switch (config.type) {
+			case 'hex':
+				return new HexField({ ...config, data })
+			case 'triangle':
+				return new TriangleField({ ...config, data })
 			case 'square':
-			default: {
-				const squareField = new SquareField(config)
-				squareField.placeMines()
-				return squareField
-			}
+			default:
+				return new SquareField({ ...config, data })
 		}
 	}
+
+	// Дыры маски заменяют клетки из data, остальные клетки data сохраняются
+	private static applyMask(
+		{ params, data }: FactoryConfig,
+		mask: boolean[][]
+	): CellDataInput[][] {
+		return createGrid(params.rows, params.cols, position => {
+			const isCell = mask[position.row][position.col]
+			const cell = data?.[position.row]?.[position.col]
+			if (isCell && cell) return cell
+
+			return new SimpleCell({ position, isHole: !isCell }).getData()
+		})
+	}
+
+	// Поле по сохраненным клеткам (сохранение, лог ходов).
+	// Цифры не хранятся и пересчитываются по раскладке мин
+	static restore(config: FactoryConfig, cells: SavedCell[][]) {
+		const data = cells.map((row, rowIndex) =>
+			row.map((cell, col) =>
+				new SimpleCell({ position: { row: rowIndex, col }, ...cell }).getData()
+			)
+		)
+
+		const field = this.create({ ...config, data })
+		field.recountAdjacentMines()
+		return field
+	}
+
+	// Поле из того, что видит игрок. Мины известны только взорванные,
+	// цифры - только у открытых клеток. Вопросы решателю не нужны
+	static fromPlayerView({ cells, ...config }: PlayerView) {
+		const data = cells.map(row =>
+			row.map(
+				({
+					position,
+					isRevealed,
+					isFlagged,
+					isHole,
+					isExploded,
+					adjacentMines,
+					mineCount,
+				}) =>
+					new SimpleCell({
+						position,
+						mineCount: isExploded ? (mineCount ?? 1) : 0,
+						isRevealed,
+						isFlagged,
+						isHole,
+						adjacentMines: adjacentMines ?? 0,
+					}).getData()
+			)
+		)
+
+		return this.create({ ...config, data })
+	}
 }
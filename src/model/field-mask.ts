@@ -0,0 +1,53 @@
+import { InvalidMaskError } from './errors'
+import { BoardMask, GameParams } from './types'
+
+const CELL = '#'
+const HOLE = '.'
+
+// Форма поля. В сохранения и логи маска пишется в ASCII-виде
+export class FieldMask {
+	// Маска в виде сетки rows x cols, true - клетка есть
+	static parse(
+		mask: BoardMask,
+		{ rows, cols, mines, maxMinesPerCell = 1 }: GameParams
+	): boolean[][] {
+		const grid = typeof mask === 'string' ? this.parseAscii(mask) : mask
+
+		if (grid.length !== rows || grid.some(row => row.length !== cols)) {
+			throw new InvalidMaskError(`Mask does not match a ${rows}x${cols} field`)
+		}
+
+		const cells = grid.flat().filter(Boolean).length
+		if (cells * maxMinesPerCell < mines) {
+			throw new InvalidMaskError(
+				`Mask leaves ${cells} cells for ${mines} mines`
+			)
+		}
+
+		return grid
+	}
+
+	static format(grid: boolean[][]): string {
+		return grid
+			.map(row => row.map(isCell => (isCell ? CELL : HOLE)).join(''))
+			.join('\n')
+	}
+
+	// Пустые строки и отступы по краям не считаются,
+	// чтобы маску можно было записать шаблонной строкой с отступом
+	private static parseAscii(mask: string): boolean[][] {
+		const lines = mask
+			.split('\n')
+			.map(line => line.trim())
+			.filter(line => line.length > 0)
+
+		return lines.map(line =>
+			[...line].map(char => {
+				if (char !== CELL && char !== HOLE) {
+					throw new InvalidMaskError(`Mask has an unknown character '${char}'`)
+				}
+				return char === CELL
+			})
+		)
+	}
+}
@@ -1,5 +1,18 @@
+import { EventEmitter } from '../lib/event-emitter'
+import { findCenter, parseKey } from '../lib/utils'
+import { SeededRandom } from '../lib/random'
+import { ActionHistory } from './action-history'
 import { BaseField } from './base-field'
 import { FieldFactory } from './field-factory'
+import { FieldMask } from './field-mask'
+import { NoGuessGenerator } from './no-guess-generator'
+import { GameSerializer } from './game-serializer'
+import { MOVE_LOG_VERSION } from './move-log'
+import { BoardCode } from './board-code'
+import { Solver } from './field-solver'
+import { HintAdvisor } from './hint-advisor'
+import { createPlayerView } from './player-view'
+import { BoardMetrics } from './board-metrics'
 import { SimpleCell } from './simple-cell'
 import {
 	CellData,
@@ -8,69 +21,210 @@ import {
 	GameStatus,
 	Position,
 	ActionResult,
+	ActionChanges,
 	GameSnapshot,
 	FieldState,
 	MineSweeperConfig,
+	FactoryConfig,
+	GenerationOptions,
+	GenerationReport,
+	DeserializeOptions,
+	HistoryResult,
+	MoveLog,
+	MoveRecord,
+	MoveType,
+	BoardInfo,
+	FirstClickPolicy,
+	FlagOwnership,
+	GameCounters,
+	GameStats,
+	Hint,
+	HintResult,
+	MineProbability,
+	PlayerView,
+	GameEventMap,
+	StateUpdate,
 } from './types'
 
+// Все, что меняет применение действия. Поля в истории не мутируются:
+// каждое действие работает с копией (cloneSelf)
+type EngineState = {
+	field: BaseField<SimpleCell>
+	status: GameStatus
+	flagsRemaining: number
+	startedAt: number | null // время первого открытия
+	finishedAt: number | null // время победы или поражения
+}
+
+type HistoryEntry = {
+	before: EngineState
+	after: EngineState
+	changes: ActionChanges
+}
+
+type Move = Pick<MoveRecord, 'type' | 'position' | 'actor' | 'mines'>
+
+const DEFAULT_HISTORY_DEPTH = 100
+const DEFAULT_HINT_COST = 1
+
 export class GameEngine {
 	private mode: GameMode
+	private config: FactoryConfig
+	private generation: GenerationOptions
+	private random: SeededRandom | null
+	private firstClick: FirstClickPolicy
+	private hintCost: number
+	private flagOwnership: FlagOwnership
+	private questionMarks: boolean
+	private clock: () => number
+	private counters: GameCounters
+
+	private events: EventEmitter<GameEventMap>
+	private listeners: Set<(update: StateUpdate) => void>
 	private field: BaseField<SimpleCell>
 	private params: GameParams
 	private status: GameStatus
 
 	private flagsRemaining: number
+	private startedAt: number | null
+	private finishedAt: number | null
+	private report: GenerationReport | null
+	private history: ActionHistory<HistoryEntry>
+
+	// Лог ходов для повторов (Replay)
+	private moves: MoveRecord[]
+	private initialMines: Position[]
+	private initialRevealed: Position[]
 
-	constructor({ mode = 'guessing', ...config }: MineSweeperConfig) {
+	constructor({
+		mode = 'guessing',
+		generation = {},
+		historyDepth = DEFAULT_HISTORY_DEPTH,
+		seed,
+		firstClick = 'safe-cell',
+		hintCost = DEFAULT_HINT_COST,
+		clock = Date.now,
+		flagOwnership = 'owner',
+		questionMarks = false,
+		...config
+	}: MineSweeperConfig) {
 		this.mode = mode
+		this.firstClick = firstClick
+		this.hintCost = hintCost
+		this.flagOwnership = flagOwnership
+		this.questionMarks = questionMarks
+		this.clock = clock
+		this.counters = {
+			hintsUsed: 0,
+			hintCost: 0,
+			effectiveClicks: 0,
+			wastedClicks: 0,
+		}
+		// Свой rng важнее зерна. Без обоих партия получает случайное зерно,
+		// чтобы у любой доски был код и ее можно было повторить
+		this.random = config.rng
+			? null
+			: new SeededRandom(seed ?? SeededRandom.randomSeed())
+		this.config = this.random ? { ...config, rng: this.random.next } : config
+		this.generation = generation
 		this.params = config.params
-		this.field = FieldFactory.create(config)
+		this.field = FieldFactory.create(this.config)
 		this.flagsRemaining = config.params.mines
 		this.status = GameStatus.Idle
+		this.startedAt = null
+		this.finishedAt = null
+		this.report = null
+		this.history = new ActionHistory(historyDepth)
+		this.moves = []
+		this.initialMines = []
+		this.initialRevealed = []
+		this.events = new EventEmitter()
+		this.listeners = new Set()
+
+		// Поле из data с открытыми клетками (головоломка) - партия уже идет,
+		// первого клика не будет
+		const state = this.field.getState()
+		if (config.data && state.revealedCells.length > 0) {
+			const now = clock()
+			this.status = this.determineStatus(state)
+			this.flagsRemaining = this.getFlagsRemaining(state)
+			this.startedAt = now
+			this.finishedAt = this.getTimer(this.status, now).finishedAt
+			this.initialMines = this.getMinePositions(this.field)
+			this.initialRevealed = state.revealedCells.map(cell => cell.position)
+		}
 	}
 
-	public revealCell(pos: Position): ActionResult {
+	// actor - игрок, который делает ход (совместная игра)
+	public revealCell(pos: Position, actor?: string): ActionResult {
+		const now = this.clock()
 		let actionStatus: GameStatus = this.status
-		const operatedField = this.field.cloneSelf()
+		let operatedField = this.field.cloneSelf()
+		let generationReport: GenerationReport | undefined
 
 		const flaggedCells: CellData[] = []
 		const unflaggedCells: CellData[] = []
+		const unquestionedCells: CellData[] = []
 		const revealedCells: CellData[] = []
 		const handledCells: CellData[] = []
 		const explodedCells: CellData[] = []
 
 		// 1. Обработка первого клика / начала игры
-		if (actionStatus === GameStatus.Idle) {
-			if (!operatedField.isMined) operatedField.placeMines()
-			if (operatedField.getCellData(pos).isMine) {
-				const unminedCell = operatedField.grid
-					.flat()
-					.find(cell => !cell.isMine)
-				if (!unminedCell) {
-					actionStatus = GameStatus.Lost
-				} else {
-					operatedField.relocateMine(pos, unminedCell.position)
-					actionStatus = GameStatus.Playing
-				}
-			} else {
-				actionStatus = GameStatus.Playing
-			}
+		// В режиме без угадываний раскладку подбирает генератор.
+		// Переданное через data поле не трогаем - оно уже задано извне.
+		// Клик в дыру (mask) игру не начинает
+		const isHole = operatedField.getCell(pos).isHole
+		if (
+			actionStatus === GameStatus.Idle &&
+			!isHole &&
+			this.mode === 'no-guessing' &&
+			!this.config.data
+		) {
+			// Без угадываний первый клик открывает область при любой политике:
+			// с одной цифры старт почти всегда требует догадки
+			const exclusion = this.getFirstClickExclusion(
+				pos,
+				operatedField,
+				'safe-opening'
+			)
+			const generator = new NoGuessGenerator(this.config, this.generation)
+			const generated = generator.generate(
+				pos,
+				exclusion.length > 0 ? exclusion : [pos]
+			)
+			operatedField = generated.field
+			generationReport = generated.report
+			actionStatus = GameStatus.Playing
+		} else if (actionStatus === GameStatus.Idle && !isHole) {
+			// Мины расставляются после первого клика в обход исключенных клеток
+			const exclusion = this.getFirstClickExclusion(pos, operatedField)
+			if (!operatedField.isMined) operatedField.placeMines(exclusion)
+			else operatedField.clearArea(exclusion)
+			actionStatus = GameStatus.Playing
 		}
 
 		const target = operatedField.getCell(pos)
+		const moveType: MoveType = target.isRevealed ? 'chord' : 'reveal'
 
-		// 2. Основная логика
-		if (actionStatus === GameStatus.Playing && !target.isFlagged) {
+		// 2. Основная логика. Вопрос, в отличие от флага, открытию не мешает.
+		// Дыра не открывается ни в каком статусе
+		if (
+			actionStatus === GameStatus.Playing &&
+			!target.isFlagged &&
+			!target.isHole
+		) {
 			const cellData = target.getData()
 			if (target.isMine) {
 				target.isRevealed = true
 				handledCells.push(cellData)
 				explodedCells.push(cellData)
+				if (this.clearQuestion(target)) unquestionedCells.push(cellData)
 			} else if (target.isRevealed) {
 				// chord/chording. Когда кликаем по открытой клетке
 				const result = this.handleRevealedClick(target, operatedField)
 				revealedCells.push(...result.revealedCells)
 				unflaggedCells.push(...result.unflaggedCells)
+				unquestionedCells.push(...result.unquestionedCells)
 				explodedCells.push(...result.explodedCells)
 				handledCells.push(...result.handledCells)
 			} else {
@@ -79,75 +233,165 @@ export class GameEngine {
 				const result = this.openArea(pos, operatedField)
 				revealedCells.push(...result.revealedCells)
 				unflaggedCells.push(...result.unflaggedCells)
+				unquestionedCells.push(...result.unquestionedCells)
 			}
 		}
 
 		const resultState = operatedField.getState()
-		actionStatus = this.determineStatus(resultState)
+		if (actionStatus !== GameStatus.Idle) {
+			actionStatus = this.determineStatus(resultState)
+		}
+
+		const actionChanges: ActionChanges = {
+			actor,
+			target,
+			explodedCells,
+			flaggedCells,
+			revealedCells,
+			handledCells,
+			unflaggedCells,
+			questionedCells: [],
+			unquestionedCells,
+		}
+
+		const nextState: EngineState = {
+			field: operatedField,
+			status: actionStatus,
+			flagsRemaining: this.getFlagsRemaining(resultState),
+			...this.getTimer(actionStatus, now),
+		}
+
+		const actionSnapshot = Object.assign(resultState, {
+			status: actionStatus,
+			stats: this.createStats(
+				nextState,
+				this.countClick(nextState, actionChanges),
+				now
+			),
+		})
 
 		const applyAction = () => {
-			this.status = actionStatus
-			this.field = operatedField
-			this.flagsRemaining = this.getFlagsRemaining(resultState)
+			if (generationReport) this.report = generationReport
+			this.commit(
+				nextState,
+				actionChanges,
+				{ type: moveType, position: pos, actor },
+				actionSnapshot
+			)
 		}
 
 		return {
 			data: {
-				actionSnapshot: Object.assign(resultState, {
-					status: actionStatus,
-				}),
-				actionChanges: {
-					target,
-					explodedCells,
-					flaggedCells,
-					revealedCells,
-					handledCells,
-					unflaggedCells,
-				},
+				actionSnapshot,
+				actionChanges,
+				generationReport,
 			},
 			apply: applyAction,
 		}
 	}
 
-	public toggleFlag(pos: Position): ActionResult {
+	public toggleFlag(pos: Position, actor?: string): ActionResult {
+		const now = this.clock()
 		const operatedField = this.field.cloneSelf()
 
 		const flaggedCells: CellData[] = []
 		const unflaggedCells: CellData[] = []
+		const questionedCells: CellData[] = []
+		const unquestionedCells: CellData[] = []
 
 		const cell = operatedField.getCell(pos)
 		const cellData = cell.getData()
 
-		if (this.status === GameStatus.Playing && !cell.isRevealed) {
+		// Метки по кругу: нет -> флаг -> вопрос (если включены) -> нет.
+		// Если в клетке бывает несколько мин, флаг сначала растет до maxMinesPerCell
+		if (
+			this.status === GameStatus.Playing &&
+			!cell.isRevealed &&
+			!cell.isHole
+		) {
 			if (cell.isFlagged) {
-				// Снимаем флаг
-				cell.isFlagged = false
-				unflaggedCells.push(cellData)
+				// Чужой флаг меняет только его владелец
+				const canChange =
+					this.flagOwnership === 'shared' || cell.flaggedBy === actor
+				const canGrow =
+					cell.flagCount < operatedField.maxMinesPerCell &&
+					this.flagsRemaining > 0
+
+				if (canChange && canGrow) {
+					// Флаг еще на одну мину
+					cell.flagCount += 1
+					flaggedCells.push(cellData)
+				} else if (canChange) {
+					// Снимаем флаг
+					cell.isFlagged = false
+					cell.flaggedBy = undefined
+					unflaggedCells.push(cellData)
+
+					if (this.questionMarks) {
+						cell.isQuestioned = true
+						questionedCells.push(cellData)
+					}
+				}
+			} else if (cell.isQuestioned) {
+				// Снимаем вопрос
+				cell.isQuestioned = false
+				unquestionedCells.push(cellData)
 			} else if (this.flagsRemaining > 0) {
 				// Ставим флаг
 				cell.isFlagged = true
+				cell.flaggedBy = actor
 				flaggedCells.push(cellData)
+			} else if (this.questionMarks) {
+				// Флаги кончились - сразу вопрос
+				cell.isQuestioned = true
+				questionedCells.push(cellData)
 			}
 		}
 
 		const resultState = operatedField.getState()
 
+		const actionChanges: ActionChanges = {
+			actor,
+			explodedCells: [],
+			flaggedCells,
+			unflaggedCells,
+			questionedCells,
+			unquestionedCells,
+			handledCells: [],
+			revealedCells: [],
+			target: cellData,
+		}
+
+		const nextState: EngineState = {
+			field: operatedField,
+			status: this.status,
+			flagsRemaining: this.getFlagsRemaining(resultState),
+			startedAt: this.startedAt,
+			finishedAt: this.finishedAt,
+		}
+
+		const actionSnapshot = Object.assign(resultState, {
+			status: this.status,
+			stats: this.createStats(
+				nextState,
+				this.countClick(nextState, actionChanges),
+				now
+			),
+		})
+
 		const applyAction = () => {
-			this.field = operatedField
-			this.flagsRemaining = this.getFlagsRemaining(resultState)
+			this.commit(
+				nextState,
+				actionChanges,
+				{ type: 'flag', position: pos, actor },
+				actionSnapshot
+			)
 		}
 
 		return {
 			data: {
-				actionSnapshot: Object.assign(resultState, { status: this.status }),
-				actionChanges: {
-					explodedCells: [],
-					flaggedCells,
-					unflaggedCells,
-					handledCells: [],
-					revealedCells: [],
-					target: cellData,
-				},
+				actionSnapshot,
+				actionChanges,
 			},
 			apply: applyAction,
 		}
@@ -158,13 +402,15 @@ export class GameEngine {
 		operatedField: BaseField<SimpleCell>
 	) {
 		const unflaggedCells: CellData[] = []
+		const unquestionedCells: CellData[] = []
 		const revealedCells: CellData[] = []
 		const handledCells: CellData[] = []
 		const explodedCells: CellData[] = []
 
+		// Вопросы не считаются флагами и открываются вместе с остальными
 		const siblings = operatedField.getSiblings(targetCell.position)
 		const closedSiblings = siblings.filter(({ isUntouched }) => isUntouched)
-		const flags = siblings.filter(sib => sib.isFlagged).length
+		const flags = siblings.reduce((sum, sib) => sum + sib.flagCount, 0)
 
 		// Условие открытия внутри аккорда
 		if (flags === targetCell.adjacentMines) {
@@ -175,19 +421,23 @@ export class GameEngine {
 
 				if (sibCell.isMine && !sibCell.isFlagged) {
 					// Проигрыш внутри аккорда
+					const sibData = sibCell.getData()
 					sibCell.isRevealed = true
-					explodedCells.push(sibCell.getData())
+					explodedCells.push(sibData)
+					if (this.clearQuestion(sibCell)) unquestionedCells.push(sibData)
 				} else {
 					// Открываем безопасную ячейку или пустую область
 					const openResult = this.openArea(sibCell.position, operatedField)
 					revealedCells.push(...openResult.revealedCells)
 					unflaggedCells.push(...openResult.unflaggedCells)
+					unquestionedCells.push(...openResult.unquestionedCells)
 				}
 			}
 		}
 
 		return {
 			unflaggedCells,
+			unquestionedCells,
 			revealedCells,
 			handledCells,
 			explodedCells,
@@ -196,6 +446,7 @@ export class GameEngine {
 
 	private openArea(pos: Position, operatedField: BaseField<SimpleCell>) {
 		const unflaggedCells: CellData[] = []
+		const unquestionedCells: CellData[] = []
 		const revealedCells: CellData[] = []
 
 		const area = operatedField.getAreaToReveal(pos)
@@ -204,30 +455,540 @@ export class GameEngine {
 			const cellData = cellToProcess.getData()
 			if (cellToProcess.isFlagged) {
 				cellToProcess.isFlagged = false
+				cellToProcess.flaggedBy = undefined
 				unflaggedCells.push(cellData)
 			}
+			if (this.clearQuestion(cellToProcess)) unquestionedCells.push(cellData)
 			if (!cellToProcess.isRevealed) {
 				cellToProcess.isRevealed = true
 				revealedCells.push(cellData)
 			}
 		})
-		return { unflaggedCells, revealedCells }
+		return { unflaggedCells, unquestionedCells, revealedCells }
+	}
+
+	// Открытая клетка не может быть под вопросом. true, если вопрос был
+	private clearQuestion(cell: SimpleCell): boolean {
+		if (!cell.isQuestioned) return false
+		cell.isQuestioned = false
+		return true
+	}
+
+	// Следующий рекомендуемый ход с объяснением.
+	// Подсказка учитывается в статистике, только когда ее принимают (apply)
+	public getHint(): HintResult | null {
+		let hint: Hint | null = null
+
+		if (this.status === GameStatus.Idle) {
+			hint = this.getFirstClickHint()
+		} else if (this.status === GameStatus.Playing) {
+			const view = this.getPlayerView()
+			const solver = new Solver(view)
+			hint = new HintAdvisor(
+				FieldFactory.fromPlayerView(view),
+				solver.solve(),
+				this.flagsRemaining > 0
+			).getHint()
+		}
+
+		if (!hint) return null
+
+		const { type, position } = hint
+		// Счетчики растут до действия: stats в его снимке уже учитывают подсказку
+		const applyHint = () => {
+			this.counters.hintsUsed += 1
+			this.counters.hintCost += this.hintCost
+
+			const action =
+				type === 'flag' ? this.toggleFlag(position) : this.revealCell(position)
+			action.apply()
+		}
+
+		return { data: hint, apply: applyHint }
+	}
+
+	// Точные вероятности мин для закрытых клеток.
+	// До первого клика и после конца партии ходов нет - пустой список
+	public getProbabilities(): MineProbability[] {
+		if (this.status !== GameStatus.Playing) return []
+		return new Solver(this.getPlayerView()).solve()
+	}
+
+	// Поле без скрытых мин и цифр закрытых клеток.
+	// Его можно отдавать недоверенному клиенту
+	public getPlayerView(): PlayerView {
+		return createPlayerView(this.config, this.field.getState().field)
+	}
+
+	// Отменяет последнее примененное действие
+	public undo(): HistoryResult | null {
+		const entry = this.history.undo()
+		if (!entry) return null
+
+		this.restoreState(entry.before)
+		this.recordMove({ type: 'undo' })
+
+		const snapshot = this.gameSnapshot
+		this.notify('undo', entry.after.status, entry.changes, snapshot)
+
+		return { action: 'undo', changes: entry.changes, snapshot }
+	}
+
+	// Повторяет последнее отмененное действие
+	public redo(): HistoryResult | null {
+		const entry = this.history.redo()
+		if (!entry) return null
+
+		this.restoreState(entry.after)
+		this.recordMove({ type: 'redo' })
+
+		const snapshot = this.gameSnapshot
+		this.notify('redo', entry.before.status, entry.changes, snapshot)
+
+		return { action: 'redo', changes: entry.changes, snapshot }
+	}
+
+	get canUndo(): boolean {
+		return this.history.canUndo
+	}
+
+	get canRedo(): boolean {
+		return this.history.canRedo
+	}
+
+	// Лог всех примененных ходов и раскладки мин после первого клика
+	get moveLog(): MoveLog {
+		const { type, params, layout, boundary, neighbourhood } = this.config
+
+		return {
+			version: MOVE_LOG_VERSION,
+			type,
+			params,
+			layout,
+			boundary,
+			neighbourhood,
+			mask: this.getMask(),
+			mode: this.mode,
+			seed: this.random?.seed,
+			firstClick: this.firstClick,
+			flagOwnership: this.flagOwnership,
+			questionMarks: this.questionMarks,
+			mines: [...this.initialMines],
+			revealed:
+				this.initialRevealed.length > 0 ? [...this.initialRevealed] : undefined,
+			moves: [...this.moves],
+		}
+	}
+
+	// Подписка на отдельное событие, возвращает функцию отписки.
+	// События приходят из apply() вместе с ActionChanges
+	public on<K extends keyof GameEventMap>(
+		event: K,
+		handler: (payload: GameEventMap[K]) => void
+	): () => void {
+		return this.events.on(event, handler)
+	}
+
+	public off<K extends keyof GameEventMap>(
+		event: K,
+		handler: (payload: GameEventMap[K]) => void
+	) {
+		this.events.off(event, handler)
+	}
+
+	// Подписка на любое изменение состояния: действия, undo и redo.
+	// Снимок уже посчитан действием, повторно getState() не вызывается
+	public subscribe(listener: (update: StateUpdate) => void): () => void {
+		this.listeners.add(listener)
+		return () => this.listeners.delete(listener)
+	}
+
+	private commit(
+		next: EngineState,
+		changes: ActionChanges,
+		move: Move,
+		snapshot: GameSnapshot
+	) {
+		const before = this.captureState()
+		this.counters = this.countClick(next, changes)
+		this.restoreState(next)
+
+		// Отмена до Idle и новый первый клик дают другую раскладку,
+		// поэтому она записывается в ход, начавший партию
+		if (before.status === GameStatus.Idle && next.status !== GameStatus.Idle) {
+			this.initialMines = this.getMinePositions(next.field)
+			this.recordMove({ ...move, mines: [...this.initialMines] })
+		} else {
+			this.recordMove(move)
+		}
+
+		// Действия, которые ничего не изменили, в историю не попадают
+		if (this.isNoop(before.status, next.status, changes)) return
+
+		this.history.push({ before, after: next, changes })
+		this.notify('action', before.status, changes, snapshot)
+	}
+
+	private notify(
+		source: StateUpdate['source'],
+		from: GameStatus,
+		changes: ActionChanges,
+		snapshot: GameSnapshot
+	) {
+		const event = { changes, status: this.status }
+
+		// Отмененные изменения не повторяем событиями reveal/flag/explode
+		if (source === 'action') {
+			const { revealedCells, explodedCells } = changes
+			if (revealedCells.length > 0) this.events.emit('reveal', event)
+			if (this.countMarks(changes) > 0) {
+				this.events.emit('flag', event)
+			}
+			if (explodedCells.length > 0) this.events.emit('explode', event)
+		}
+
+		if (from !== this.status) {
+			this.events.emit('statusChange', { from, to: this.status, changes })
+			if (this.status === GameStatus.Won) this.events.emit('win', event)
+			if (this.status === GameStatus.Lost) this.events.emit('lose', event)
+		}
+
+		for (const listener of [...this.listeners]) {
+			listener({ source, changes, snapshot })
+		}
+	}
+
+	private isNoop(from: GameStatus, to: GameStatus, changes: ActionChanges) {
+		return (
+			from === to &&
+			changes.revealedCells.length === 0 &&
+			changes.explodedCells.length === 0 &&
+			this.countMarks(changes) === 0
+		)
+	}
+
+	// Сколько флагов и вопросов поставлено или снято
+	private countMarks(changes: ActionChanges): number {
+		return (
+			changes.flaggedCells.length +
+			changes.unflaggedCells.length +
+			changes.questionedCells.length +
+			changes.unquestionedCells.length
+		)
+	}
+
+	// Счетчики после клика: клик без изменений считается потраченным впустую
+	private countClick(next: EngineState, changes: ActionChanges): GameCounters {
+		const { effectiveClicks, wastedClicks } = this.counters
+
+		return this.isNoop(this.status, next.status, changes)
+			? { ...this.counters, wastedClicks: wastedClicks + 1 }
+			: { ...this.counters, effectiveClicks: effectiveClicks + 1 }
+	}
+
+	// Таймер идет с первого открытия и останавливается на победе или поражении
+	private getTimer(
+		status: GameStatus,
+		now: number
+	): Pick<EngineState, 'startedAt' | 'finishedAt'> {
+		const isOver = status === GameStatus.Won || status === GameStatus.Lost
+
+		return {
+			startedAt: status === GameStatus.Idle ? null : (this.startedAt ?? now),
+			finishedAt: isOver ? (this.finishedAt ?? now) : null,
+		}
+	}
+
+	private getElapsed(
+		{ startedAt, finishedAt }: EngineState,
+		now: number
+	): number {
+		return startedAt === null ? 0 : (finishedAt ?? now) - startedAt
+	}
+
+	private createStats(
+		state: EngineState,
+		counters: GameCounters,
+		now: number
+	): GameStats {
+		const elapsed = this.getElapsed(state, now)
+		const { bbbv, solved } =
+			state.status === GameStatus.Idle
+				? { bbbv: 0, solved: 0 }
+				: BoardMetrics.measure(state.field)
+
+		return {
+			...counters,
+			clicks: counters.effectiveClicks + counters.wastedClicks,
+			elapsed,
+			bbbv,
+			solvedBbbv: solved,
+			bbbvPerSecond: elapsed > 0 ? solved / (elapsed / 1000) : 0,
+		}
+	}
+
+	private recordMove(move: Move) {
+		this.moves.push({ ...move, timestamp: this.clock(), status: this.status })
+	}
+
+	private captureState(): EngineState {
+		return {
+			field: this.field,
+			status: this.status,
+			flagsRemaining: this.flagsRemaining,
+			startedAt: this.startedAt,
+			finishedAt: this.finishedAt,
+		}
+	}
+
+	private restoreState({
+		field,
+		status,
+		flagsRemaining,
+		startedAt,
+		finishedAt,
+	}: EngineState) {
+		this.field = field
+		this.status = status
+		this.flagsRemaining = flagsRemaining
+		this.startedAt = startedAt
+		this.finishedAt = finishedAt
+	}
+
+	private getFirstClickHint(): Hint {
+		const { rows, cols } = this.params
+		const position = findCenter(
+			rows,
+			cols,
+			pos => !this.field.getCell(pos).isHole
+		)!
+
+		if (this.firstClick === 'none') {
+			// До первого клика все клетки равноправны, но при нескольких
+			// минах в клетке вероятность не сводится к mines / cells
+			const [{ value }] = new Solver(this.getPlayerView()).solve()
+			return {
+				type: 'guess',
+				position,
+				probability: value,
+				reason: {
+					rule: 'first-click',
+					message: 'The first click is not protected, any cell is a guess',
+				},
+			}
+		}
+
+		return {
+			type: 'reveal',
+			position,
+			probability: 0,
+			reason: {
+				rule: 'first-click',
+				message: 'The first click is always safe',
+			},
+		}
+	}
+
+	// Клетки, которые по политике первого клика должны остаться без мин.
+	// Если мины в оставшиеся клетки не помещаются, политика ослабляется
+	private getFirstClickExclusion(
+		pos: Position,
+		field: BaseField<SimpleCell>,
+		policy: FirstClickPolicy = this.firstClick
+	): Position[] {
+		// Поместятся ли мины, если исключить count клеток
+		const fits = (count: number) =>
+			(field.cells.length - count) * field.maxMinesPerCell >= this.params.mines
+
+		if (policy === 'safe-opening') {
+			const area = [pos, ...field.getSiblings(pos).map(sib => sib.position)]
+			if (fits(area.length)) return area
+		}
+		if (policy !== 'none' && fits(1)) return [pos]
+
+		return []
 	}
 
 	private determineStatus(resultState: FieldState) {
 		const revealedCount = resultState.revealedCells.length
-		const { cols, mines, rows } = this.params
+		const safeCells = this.field.cells.length - resultState.minedCells.length
 
 		if (resultState.explodedCells.length > 0) return GameStatus.Lost
-		else if (revealedCount === cols * rows - mines) return GameStatus.Won
+		else if (revealedCount === safeCells) return GameStatus.Won
 		else return GameStatus.Playing
 	}
 
+	// Клетка с несколькими минами повторяется (см. MoveLog.mines)
+	private getMinePositions(field: BaseField<SimpleCell>): Position[] {
+		return field.grid
+			.flat()
+			.flatMap(cell => Array(cell.mineCount).fill(cell.position))
+	}
+
+	// Форма поля в ASCII-виде, undefined для полного прямоугольника.
+	// Берется из клеток: дыры могут прийти и через data
+	private getMask(): string | undefined {
+		const grid = this.field.grid.map(row => row.map(cell => !cell.isHole))
+		return grid.flat().every(Boolean) ? undefined : FieldMask.format(grid)
+	}
+
 	private getFlagsRemaining(resultState: FieldState) {
-		return this.params.mines - resultState.flaggedCells.length
+		const flags = resultState.flaggedCells.reduce(
+			(sum, cell) => sum + cell.flagCount,
+			0
+		)
+		return this.params.mines - flags
+	}
+
+	// Компактная строка с полным состоянием партии
+	public serialize(): string {
+		const { type, params, layout, boundary, neighbourhood } = this.config
+		const owners = this.field.grid
+			.flat()
+			.filter(cell => cell.isFlagged && cell.flaggedBy !== undefined)
+			.map(cell => [cell.key, cell.flaggedBy!])
+		// Обычные клетки (одна мина, один флаг) уже описаны битами клеток
+		const counts = (count: (cell: SimpleCell) => number) => {
+			const entries = this.field.grid
+				.flat()
+				.filter(cell => count(cell) > 1)
+				.map(cell => [cell.key, count(cell)])
+			return entries.length > 0 ? Object.fromEntries(entries) : undefined
+		}
+
+		return GameSerializer.serialize({
+			type,
+			params,
+			layout,
+			boundary,
+			neighbourhood,
+			mask: this.getMask(),
+			mode: this.mode,
+			firstClick: this.firstClick,
+			status: this.status,
+			flagsRemaining: this.flagsRemaining,
+			seed: this.random?.seed,
+			rngState: this.random?.state,
+			flagOwnership: this.flagOwnership,
+			questionMarks: this.questionMarks,
+			flaggedBy: owners.length > 0 ? Object.fromEntries(owners) : undefined,
+			mineCounts: counts(cell => cell.mineCount),
+			flagCounts: counts(cell => cell.flagCount),
+			elapsed: this.getElapsed(this.captureState(), this.clock()),
+			stats: { ...this.counters },
+			cells: this.field.grid.map(row =>
+				row.map(({ isMine, isRevealed, isFlagged, isQuestioned }) => ({
+					isMine,
+					isRevealed,
+					isFlagged,
+					isQuestioned,
+				}))
+			),
+		})
+	}
+
+	// Восстанавливает партию из serialize(). При ошибке бросает SerializationError
+	static deserialize(
+		input: string,
+		{ rng, clock }: DeserializeOptions = {}
+	): GameEngine {
+		const {
+			cells,
+			status,
+			flagsRemaining,
+			seed,
+			rngState,
+			flaggedBy = {},
+			elapsed = 0,
+			stats,
+			...config
+		} = GameSerializer.deserialize(input)
+
+		// Не начатая партия - это просто новая игра с теми же настройками
+		if (status === GameStatus.Idle) {
+			return new GameEngine({ ...config, rng, seed, clock })
+		}
+
+		const data = FieldFactory.restore(config, cells).getState().field
+
+		const engine = new GameEngine({ ...config, rng, seed, clock, data })
+		if (engine.random && rngState !== undefined) {
+			engine.random.state = rngState
+		}
+		engine.status = status
+		engine.flagsRemaining = flagsRemaining
+		for (const [key, owner] of Object.entries(flaggedBy)) {
+			engine.field.getCell(parseKey(key)).flaggedBy = owner
+		}
+		// Таймер продолжается с сохраненного значения
+		const now = engine.clock()
+		engine.startedAt = now - elapsed
+		engine.finishedAt = engine.getTimer(status, now).finishedAt
+		if (stats) engine.counters = { ...engine.counters, ...stats }
+
+		return engine
+	}
+
+	// Время, 3BV, клики и подсказки текущей партии
+	get stats(): GameStats {
+		return this.createStats(this.captureState(), this.counters, this.clock())
+	}
+
+	// Новая партия на доске из кода (см. boardCode)
+	static fromBoardCode(
+		code: string,
+		config: Omit<MineSweeperConfig, keyof BoardInfo | 'rng'> = {}
+	): GameEngine {
+		return new GameEngine({ ...config, ...BoardCode.decode(code) })
+	}
+
+	// Короткий код доски: тип поля, параметры, правила первого клика и зерно.
+	// null, если раскладку задает внешний rng или доска не помещается в код
+	get boardCode(): string | null {
+		const { type, params, layout, boundary, neighbourhood } = this.config
+		// С лимитом времени раскладка no-guessing зависит от скорости машины
+		const isTimed =
+			this.mode === 'no-guessing' && this.generation.timeLimit !== undefined
+		const isPlain =
+			!isTimed &&
+			!this.getMask() &&
+			this.field.maxMinesPerCell === 1 &&
+			(neighbourhood ?? 'moore') === 'moore'
+		if (!this.random || !isPlain) return null
+
+		return BoardCode.encode({
+			type,
+			params,
+			layout,
+			boundary,
+			mode: this.mode,
+			firstClick: this.firstClick,
+			seed: this.random.seed,
+		})
+	}
+
+	// Тип поля и его размеры, без раскладки мин
+	get fieldConfig(): FactoryConfig {
+		const { type, params, layout, boundary, neighbourhood } = this.config
+		return {
+			type,
+			params,
+			layout,
+			boundary,
+			neighbourhood,
+			mask: this.getMask(),
+		}
+	}
+
+	// Отчет о генерации раскладки в режиме no-guessing (null до первого клика)
+	get generationReport(): GenerationReport | null {
+		return this.report
 	}
 
 	get gameSnapshot(): GameSnapshot {
-		return Object.assign(this.field.getState(), { status: this.status })
+		return Object.assign(this.field.getState(), {
+			status: this.status,
+			stats: this.stats,
+		})
 	}
 }
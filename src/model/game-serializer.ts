@@ -0,0 +1,325 @@
+import {
+	checksum,
+	decodeAsciiJson,
+	decodeBase64Url,
+	encodeAsciiJson,
+	encodeBase64Url,
+	packBits,
+	unpackBits,
+} from '../lib/codec'
+import {
+	BOUNDARY_MODES,
+	FIELD_TYPES,
+	FIRST_CLICK_POLICIES,
+	FLAG_OWNERSHIPS,
+	GAME_MODES,
+	GAME_STATUSES,
+	HEX_LAYOUTS,
+	parseKey,
+} from '../lib/utils'
+import {
+	ChecksumMismatchError,
+	DataMismatchError,
+	InvalidFormatError,
+	InvalidMaskError,
+	SerializationError,
+	UnsupportedVersionError,
+} from './errors'
+import { FieldMask } from './field-mask'
+import { Neighbourhood } from './neighbourhood'
+import { GameParams, GameSave, GameStatus, SavedCell } from './types'
+
+// Формат сохранения (base64url):
+// [сигнатура 'MS'][версия: 1 байт][длина заголовка: 4 байта][заголовок: ASCII JSON]
+// [клетки: по 4 бита - мина, открыта, флаг, вопрос][контрольная сумма FNV-1a: 4 байта]
+const SIGNATURE = [0x4d, 0x53]
+const CHECKSUM_SIZE = 4
+
+export const SAVE_FORMAT_VERSION = 3
+
+// Бит на клетку по версиям. В версии 1 вопросов еще не было
+const BITS_PER_CELL: Record<number, number> = { 1: 3, 2: 4, 3: 4 }
+// Байт на длину заголовка. До версии 3 - 2 байта, и маска большого
+// поля (или счетчики мин) в заголовок не помещалась
+const HEADER_LENGTH_SIZE: Record<number, number> = { 1: 2, 2: 2, 3: 4 }
+const MAX_HEADER_SIZE = 0xffffffff
+
+const getPreambleSize = (version: number) =>
+	SIGNATURE.length + 1 + HEADER_LENGTH_SIZE[version]
+
+type SaveHeader = Omit<GameSave, 'cells'>
+
+export class GameSerializer {
+	static serialize({ cells, ...header }: GameSave): string {
+		const headerBytes = encodeAsciiJson(header)
+		if (headerBytes.length > MAX_HEADER_SIZE) {
+			throw new SerializationError('Save header is too large')
+		}
+		const preambleSize = getPreambleSize(SAVE_FORMAT_VERSION)
+
+		const bits = cells
+			.flat()
+			.flatMap(cell => [
+				cell.isMine,
+				cell.isRevealed,
+				cell.isFlagged,
+				cell.isQuestioned ?? false,
+			])
+		const body = packBits(bits)
+
+		const bytes = new Uint8Array(
+			preambleSize + headerBytes.length + body.length + CHECKSUM_SIZE
+		)
+		const view = new DataView(bytes.buffer)
+
+		bytes.set(SIGNATURE, 0)
+		view.setUint8(2, SAVE_FORMAT_VERSION)
+		view.setUint32(3, headerBytes.length)
+		bytes.set(headerBytes, preambleSize)
+		bytes.set(body, preambleSize + headerBytes.length)
+
+		const sumOffset = bytes.length - CHECKSUM_SIZE
+		view.setUint32(sumOffset, checksum(bytes.subarray(0, sumOffset)))
+
+		return encodeBase64Url(bytes)
+	}
+
+	static deserialize(input: string): GameSave {
+		const bytes = decodeBase64Url(input.trim())
+		if (!bytes || bytes.length < getPreambleSize(1) + CHECKSUM_SIZE) {
+			throw new InvalidFormatError('Save data is not a valid game save')
+		}
+
+		const view = new DataView(bytes.buffer)
+		if (bytes[0] !== SIGNATURE[0] || bytes[1] !== SIGNATURE[1]) {
+			throw new InvalidFormatError('Save data has no game save signature')
+		}
+
+		const version = view.getUint8(2)
+		const bitsPerCell = BITS_PER_CELL[version]
+		if (!bitsPerCell) {
+			throw new UnsupportedVersionError(version)
+		}
+
+		const sumOffset = bytes.length - CHECKSUM_SIZE
+		if (view.getUint32(sumOffset) !== checksum(bytes.subarray(0, sumOffset))) {
+			throw new ChecksumMismatchError()
+		}
+
+		const preambleSize = getPreambleSize(version)
+		const headerSize =
+			HEADER_LENGTH_SIZE[version] === 4 ? view.getUint32(3) : view.getUint16(3)
+		const bodyOffset = preambleSize + headerSize
+		if (preambleSize > sumOffset || bodyOffset > sumOffset) {
+			throw new InvalidFormatError('Save header is truncated')
+		}
+
+		const header = this.parseHeader(bytes.subarray(preambleSize, bodyOffset))
+		const { rows, cols } = header.params
+
+		const body = bytes.subarray(bodyOffset, sumOffset)
+		if (body.length !== Math.ceil((rows * cols * bitsPerCell) / 8)) {
+			throw new DataMismatchError(
+				`Save body does not match a ${rows}x${cols} field`
+			)
+		}
+
+		const bits = unpackBits(body, rows * cols * bitsPerCell)
+		const cells: SavedCell[][] = Array.from({ length: rows }, (_, row) =>
+			Array.from({ length: cols }, (_, col) => {
+				const offset = (row * cols + col) * bitsPerCell
+				return {
+					isMine: bits[offset],
+					isRevealed: bits[offset + 1],
+					isFlagged: bits[offset + 2],
+					isQuestioned: bitsPerCell > 3 && bits[offset + 3],
+				}
+			})
+		)
+
+		this.applyCounts(header, cells)
+		this.validate({ ...header, cells })
+
+		return { ...header, cells }
+	}
+
+	// Клетки с несколькими минами или флагами хранятся в заголовке,
+	// в битах у них только признак мины и флага
+	private static applyCounts(
+		{ mineCounts = {}, flagCounts = {} }: SaveHeader,
+		cells: SavedCell[][]
+	) {
+		const apply = (
+			counts: Record<string, number>,
+			field: 'mineCount' | 'flagCount',
+			isSet: (cell: SavedCell) => boolean
+		) => {
+			for (const [key, count] of Object.entries(counts)) {
+				const { row, col } = parseKey(key)
+				const cell = cells[row]?.[col]
+				if (!cell || !isSet(cell)) {
+					throw new DataMismatchError(`Save has a ${field} for cell ${key}`)
+				}
+				cell[field] = count
+			}
+		}
+
+		apply(mineCounts, 'mineCount', cell => cell.isMine)
+		apply(flagCounts, 'flagCount', cell => cell.isFlagged)
+	}
+
+	private static parseHeader(bytes: Uint8Array): SaveHeader {
+		let header: SaveHeader
+		try {
+			header = decodeAsciiJson(bytes) as SaveHeader
+		} catch {
+			throw new InvalidFormatError('Save header is not valid JSON')
+		}
+
+		const { params } = header ?? {}
+		const isCount = (value: unknown) =>
+			typeof value === 'number' && Number.isInteger(value) && value >= 0
+		const isCounts = (value: unknown) =>
+			typeof value === 'object' &&
+			value !== null &&
+			Object.values(value).every(count => isCount(count) && count > 0)
+
+		if (
+			!FIELD_TYPES.includes(header?.type) ||
+			!GAME_MODES.includes(header.mode) ||
+			(header.layout !== undefined && !HEX_LAYOUTS.includes(header.layout)) ||
+			(header.boundary !== undefined &&
+				!BOUNDARY_MODES.includes(header.boundary)) ||
+			(header.neighbourhood !== undefined &&
+				!Neighbourhood.isValid(header.neighbourhood)) ||
+			(header.mask !== undefined && typeof header.mask !== 'string') ||
+			(header.firstClick !== undefined &&
+				!FIRST_CLICK_POLICIES.includes(header.firstClick)) ||
+			!GAME_STATUSES.includes(header.status) ||
+			!isCount(header.flagsRemaining) ||
+			!isCount(params?.rows) ||
+			!isCount(params.cols) ||
+			!isCount(params.mines) ||
+			(params.maxMinesPerCell !== undefined &&
+				!(isCount(params.maxMinesPerCell) && params.maxMinesPerCell > 0)) ||
+			(header.seed !== undefined && !isCount(header.seed)) ||
+			(header.rngState !== undefined && !isCount(header.rngState)) ||
+			(header.flagOwnership !== undefined &&
+				!FLAG_OWNERSHIPS.includes(header.flagOwnership)) ||
+			(header.questionMarks !== undefined &&
+				typeof header.questionMarks !== 'boolean') ||
+			(header.flaggedBy !== undefined &&
+				(typeof header.flaggedBy !== 'object' ||
+					header.flaggedBy === null ||
+					!Object.values(header.flaggedBy).every(
+						owner => typeof owner === 'string'
+					))) ||
+			(header.mineCounts !== undefined && !isCounts(header.mineCounts)) ||
+			(header.flagCounts !== undefined && !isCounts(header.flagCounts)) ||
+			(header.elapsed !== undefined && !isCount(header.elapsed)) ||
+			(header.stats !== undefined &&
+				(!isCount(header.stats?.hintsUsed) ||
+					typeof header.stats.hintCost !== 'number' ||
+					(header.stats.effectiveClicks !== undefined &&
+						!isCount(header.stats.effectiveClicks)) ||
+					(header.stats.wastedClicks !== undefined &&
+						!isCount(header.stats.wastedClicks))))
+		) {
+			throw new InvalidFormatError('Save header has missing or invalid fields')
+		}
+
+		return header
+	}
+
+	// Сверяем восстановленное поле с параметрами из заголовка
+	private static validate({
+		cells,
+		params,
+		status,
+		flagsRemaining,
+		flaggedBy = {},
+		mask,
+	}: GameSave) {
+		const flat = cells.flat()
+		const countOf = (isSet: boolean, count?: number) =>
+			isSet ? (count ?? 1) : 0
+		const mines = flat.reduce(
+			(sum, cell) => sum + countOf(cell.isMine, cell.mineCount),
+			0
+		)
+		const flags = flat.reduce(
+			(sum, cell) => sum + countOf(cell.isFlagged, cell.flagCount),
+			0
+		)
+		const capacity = params.maxMinesPerCell ?? 1
+
+		if (status !== GameStatus.Idle && mines !== params.mines) {
+			throw new DataMismatchError(
+				`Save has ${mines} mines, expected ${params.mines}`
+			)
+		}
+		if (flagsRemaining !== params.mines - flags) {
+			throw new DataMismatchError(
+				`Save has ${flags} flags, but ${flagsRemaining} flags remaining`
+			)
+		}
+		if (
+			flat.some(
+				cell =>
+					countOf(cell.isMine, cell.mineCount) > capacity ||
+					countOf(cell.isFlagged, cell.flagCount) > capacity
+			)
+		) {
+			throw new DataMismatchError(
+				`Save has cells with more than ${capacity} mines or flags`
+			)
+		}
+		if (flat.some(cell => cell.isRevealed && cell.isFlagged)) {
+			throw new DataMismatchError('Save has revealed cells with flags')
+		}
+		if (
+			flat.some(
+				cell => cell.isQuestioned && (cell.isRevealed || cell.isFlagged)
+			)
+		) {
+			throw new DataMismatchError(
+				'Save has question marks on revealed or flagged cells'
+			)
+		}
+		if (mask !== undefined) this.validateMask(mask, cells, params)
+		for (const key of Object.keys(flaggedBy)) {
+			const { row, col } = parseKey(key)
+			if (!cells[row]?.[col]?.isFlagged) {
+				throw new DataMismatchError(`Save has a flag owner for cell ${key}`)
+			}
+		}
+	}
+
+	// В дырах не бывает ни мин, ни открытых клеток, ни меток
+	private static validateMask(
+		mask: string,
+		cells: SavedCell[][],
+		params: GameParams
+	) {
+		let grid: boolean[][]
+		try {
+			grid = FieldMask.parse(mask, params)
+		} catch (error) {
+			if (error instanceof InvalidMaskError) {
+				throw new DataMismatchError(`Save mask is invalid: ${error.message}`)
+			}
+			throw error
+		}
+
+		const isCell = grid.flat()
+		const holes = cells.flat().filter((_, index) => !isCell[index])
+		if (
+			holes.some(
+				cell =>
+					cell.isMine || cell.isRevealed || cell.isFlagged || cell.isQuestioned
+			)
+		) {
+			throw new DataMismatchError('Save has mines or marks in mask holes')
+		}
+	}
+}
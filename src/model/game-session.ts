@@ -0,0 +1,257 @@
+import { GameEngine } from './game-engine'
+import { createPlayerView, toPlayerCell } from './player-view'
+import {
+	ActionChanges,
+	CellData,
+	DeltaMessage,
+	GameSessionOptions,
+	GameSnapshot,
+	GameStatus,
+	PlayerChanges,
+	SessionCommand,
+	SessionHandler,
+	SessionMessage,
+	SessionRejectReason,
+	SessionTransport,
+	StateUpdate,
+} from './types'
+
+type PlayerState = {
+	connected: boolean
+	commandSeq: number // последняя обработанная команда
+}
+
+const DEFAULT_CATCH_UP_LIMIT = 100
+const COMMAND_TYPES = ['reveal', 'flag', 'chord']
+
+// Сервер партии: принимает команды клиентов, проверяет их и рассылает
+// изменения без скрытых данных. Мины клиентам не уходят ни в каком виде.
+// Транспорт любой - сессия знает только SessionTransport
+export class GameSession implements SessionHandler {
+	private engine: GameEngine
+	private transport: SessionTransport
+	private catchUpLimit: number
+
+	private players: Map<string, PlayerState>
+	private seq: number
+	// Последние изменения для догоняющих клиентов, все с seq > baseSeq
+	private log: DeltaMessage[]
+	private baseSeq: number
+	private unsubscribe: () => void
+
+	constructor(
+		engine: GameEngine,
+		transport: SessionTransport,
+		{ catchUpLimit = DEFAULT_CATCH_UP_LIMIT }: GameSessionOptions = {}
+	) {
+		this.engine = engine
+		this.transport = transport
+		this.catchUpLimit = catchUpLimit
+		this.players = new Map()
+		this.seq = 0
+		this.log = []
+		this.baseSeq = 0
+
+		// Ходы в обход сессии (undo, redo, действия хоста) тоже рассылаем
+		this.unsubscribe = engine.subscribe(update => this.broadcast(update))
+		transport.attach(this)
+	}
+
+	get connectedPlayers(): string[] {
+		return [...this.players.entries()]
+			.filter(([, player]) => player.connected)
+			.map(([playerId]) => playerId)
+	}
+
+	// Подключение и переподключение. Если lastSeq еще в логе,
+	// клиент получает пропущенные изменения, иначе полный снимок
+	public connect(playerId: string, lastSeq?: number) {
+		const player = this.players.get(playerId) ?? {
+			connected: false,
+			commandSeq: 0,
+		}
+		player.connected = true
+		this.players.set(playerId, player)
+
+		const canCatchUp =
+			lastSeq !== undefined && lastSeq >= this.baseSeq && lastSeq <= this.seq
+
+		if (canCatchUp) {
+			this.log
+				.filter(message => message.seq > lastSeq)
+				.forEach(message => this.transport.send(playerId, message))
+		} else {
+			this.sendSnapshot(playerId, this.engine.gameSnapshot)
+		}
+	}
+
+	public disconnect(playerId: string) {
+		const player = this.players.get(playerId)
+		if (player) player.connected = false
+	}
+
+	public receive(playerId: string, input: unknown) {
+		const player = this.players.get(playerId)
+		if (!player?.connected) return
+
+		if (!this.isCommand(input)) {
+			const seq = (input as Partial<SessionCommand> | null)?.seq
+			const commandSeq = typeof seq === 'number' ? seq : null
+			this.reject(playerId, commandSeq, 'invalid-command')
+			return
+		}
+
+		const command = input
+		if (command.seq <= player.commandSeq) {
+			this.reject(playerId, command.seq, 'duplicate')
+			return
+		}
+
+		const reason = this.validate(command)
+		player.commandSeq = command.seq
+		if (reason) {
+			this.reject(playerId, command.seq, reason)
+			return
+		}
+
+		const action =
+			command.type === 'flag'
+				? this.engine.toggleFlag(command.position, playerId)
+				: this.engine.revealCell(command.position, playerId)
+		action.apply()
+
+		this.transport.send(playerId, {
+			type: 'ack',
+			commandSeq: command.seq,
+			seq: this.seq,
+		})
+	}
+
+	// Отключает сессию от движка
+	public close() {
+		this.unsubscribe()
+	}
+
+	private broadcast({ source, changes, snapshot }: StateUpdate) {
+		this.seq++
+
+		// Отмену нельзя описать добавлением клеток - всем уходит снимок
+		if (source !== 'action') {
+			this.log = []
+			this.baseSeq = this.seq
+			this.connectedPlayers.forEach(playerId =>
+				this.sendSnapshot(playerId, snapshot)
+			)
+			return
+		}
+
+		const message: DeltaMessage = {
+			type: 'delta',
+			seq: this.seq,
+			actor: changes.actor ?? null,
+			changes: this.redact(changes, snapshot),
+			status: snapshot.status,
+			flagsRemaining: this.getFlagsRemaining(snapshot),
+		}
+
+		this.log.push(message)
+		if (this.log.length > this.catchUpLimit) {
+			this.baseSeq = this.log.shift()!.seq
+		}
+
+		this.connectedPlayers.forEach(playerId =>
+			this.transport.send(playerId, message)
+		)
+	}
+
+	// Клетки берем из снимка после действия: в ActionChanges они могут быть
+	// в состоянии до него. handledCells и target не отправляем - среди них
+	// бывают закрытые мины
+	private redact(
+		changes: ActionChanges,
+		snapshot: GameSnapshot
+	): PlayerChanges {
+		const toPlayerCells = (cells: CellData[]) =>
+			cells.map(({ position }) =>
+				toPlayerCell(snapshot.field[position.row][position.col])
+			)
+
+		return {
+			revealedCells: toPlayerCells(changes.revealedCells),
+			explodedCells: toPlayerCells(changes.explodedCells),
+			flaggedCells: toPlayerCells(changes.flaggedCells),
+			unflaggedCells: toPlayerCells(changes.unflaggedCells),
+			questionedCells: toPlayerCells(changes.questionedCells),
+			unquestionedCells: toPlayerCells(changes.unquestionedCells),
+		}
+	}
+
+	private sendSnapshot(playerId: string, snapshot: GameSnapshot) {
+		const message: SessionMessage = {
+			type: 'snapshot',
+			seq: this.seq,
+			commandSeq: this.players.get(playerId)?.commandSeq ?? 0,
+			view: createPlayerView(this.engine.fieldConfig, snapshot.field),
+			status: snapshot.status,
+			flagsRemaining: this.getFlagsRemaining(snapshot),
+		}
+		this.transport.send(playerId, message)
+	}
+
+	private validate({
+		type,
+		position,
+	}: SessionCommand): SessionRejectReason | null {
+		const { rows, cols } = this.engine.fieldConfig.params
+		const { row, col } = position
+		if (row < 0 || row >= rows || col < 0 || col >= cols) {
+			return 'out-of-bounds'
+		}
+
+		const snapshot = this.engine.gameSnapshot
+		if (
+			snapshot.status === GameStatus.Won ||
+			snapshot.status === GameStatus.Lost
+		) {
+			return 'game-over'
+		}
+
+		const cell = snapshot.field[row][col]
+		const isTarget =
+			type === 'chord'
+				? cell.isRevealed && !cell.isExploded && cell.adjacentMines > 0
+				: !cell.isRevealed &&
+					!cell.isHole &&
+					(type === 'flag' || !cell.isFlagged)
+
+		return isTarget ? null : 'invalid-target'
+	}
+
+	// Команда приходит от недоверенного клиента, проверяем форму целиком
+	private isCommand(input: unknown): input is SessionCommand {
+		const command = input as SessionCommand | null
+		return (
+			typeof command === 'object' &&
+			command !== null &&
+			COMMAND_TYPES.includes(command.type) &&
+			Number.isInteger(command.seq) &&
+			Number.isInteger(command.position?.row) &&
+			Number.isInteger(command.position?.col)
+		)
+	}
+
+	private reject(
+		playerId: string,
+		commandSeq: number | null,
+		reason: SessionRejectReason
+	) {
+		this.transport.send(playerId, { type: 'reject', commandSeq, reason })
+	}
+
+	private getFlagsRemaining(snapshot: GameSnapshot): number {
+		return snapshot.flaggedCells.reduce(
+			(flags, cell) => flags - cell.flagCount,
+			this.engine.fieldConfig.params.mines
+		)
+	}
+}
@@ -0,0 +1,47 @@
+import { GuessStrategy, GuessStrategyName, MineProbability } from './types'
+
+// Насколько клетка может быть опаснее самой безопасной,
+// чтобы corner-first все еще выбрал ее ради меньшего числа соседей
+const CORNER_TOLERANCE = 0.05
+
+const lowestProbability: GuessStrategy = ({ candidates }) =>
+	candidates.reduce((min, prob) => (prob.value < min.value ? prob : min))
+		.position
+
+// В углах и у края соседей меньше, поэтому там чаще открывается окно
+const cornerFirst: GuessStrategy = ({ candidates, getSiblings }) => {
+	const min = Math.min(...candidates.map(prob => prob.value))
+	const safest = candidates.filter(prob => prob.value <= min + CORNER_TOLERANCE)
+
+	return safest
+		.map(prob => ({
+			prob,
+			siblings: getSiblings(prob.position).length,
+		}))
+		.reduce((best, item) =>
+			item.siblings < best.siblings ||
+			(item.siblings === best.siblings && item.prob.value < best.prob.value)
+				? item
+				: best
+		).prob.position
+}
+
+// Ожидаемая польза хода: шанс пережить его, умноженный на число
+// закрытых соседей, о которых откроется цифра
+const informationGain: GuessStrategy = ({ candidates, getSiblings }) => {
+	const score = ({ value, position }: MineProbability) => {
+		const closed = getSiblings(position).filter(cell => !cell.isRevealed)
+		return (1 - value) * (1 + closed.length)
+	}
+
+	return candidates
+		.map(prob => ({ prob, score: score(prob) }))
+		.reduce((best, item) => (item.score > best.score ? item : best)).prob
+		.position
+}
+
+export const GUESS_STRATEGIES: Record<GuessStrategyName, GuessStrategy> = {
+	'lowest-probability': lowestProbability,
+	'corner-first': cornerFirst,
+	'information-gain': informationGain,
+}
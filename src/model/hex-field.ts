@@ -0,0 +1,82 @@
+import {
+	ConstructorCellProps,
+	ConstrutorFieldProps,
+	HexLayout,
+	Position,
+} from './types'
+import { BaseField } from './base-field'
+import { SimpleCell } from './simple-cell'
+
+type Offset = [col: number, row: number]
+
+// Смещения соседей для каждой раскладки:
+// [для четной строки/колонки, для нечетной]. Для axial раскладка одна
+// prettier-ignore
+const HEX_DIRECTIONS: Record<HexLayout, [Offset[], Offset[]]> = {
+	// Острые вершины сверху, нечетные строки сдвинуты вправо
+	'odd-r': [
+		[[1, 0], [-1, 0], [0, -1], [-1, -1], [0, 1], [-1, 1]],
+		[[1, 0], [-1, 0], [1, -1], [0, -1], [1, 1], [0, 1]],
+	],
+	// Острые вершины сверху, четные строки сдвинуты вправо
+	'even-r': [
+		[[1, 0], [-1, 0], [1, -1], [0, -1], [1, 1], [0, 1]],
+		[[1, 0], [-1, 0], [0, -1], [-1, -1], [0, 1], [-1, 1]],
+	],
+	// Плоские вершины сверху, нечетные колонки сдвинуты вниз
+	'odd-q': [
+		[[1, 0], [1, -1], [0, -1], [-1, -1], [-1, 0], [0, 1]],
+		[[1, 1], [1, 0], [0, -1], [-1, 0], [-1, 1], [0, 1]],
+	],
+	// Плоские вершины сверху, четные колонки сдвинуты вниз
+	'even-q': [
+		[[1, 1], [1, 0], [0, -1], [-1, 0], [-1, 1], [0, 1]],
+		[[1, 0], [1, -1], [0, -1], [-1, -1], [-1, 0], [0, 1]],
+	],
+	// Осевые координаты (col = q, row = r), поле в форме ромба
+	axial: [
+		[[1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1], [0, 1]],
+		[[1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1], [0, 1]],
+	],
+}
+
+export interface HexFieldProps extends ConstrutorFieldProps {
+	layout?: HexLayout
+}
+
+export class HexField extends BaseField<SimpleCell> {
+	readonly layout: HexLayout
+
+	constructor({ params, rng, data, layout = 'odd-r' }: HexFieldProps) {
+		super({ params, data, rng })
+		this.layout = layout
+	}
+
+	protected createCell(props: ConstructorCellProps) {
+		return new SimpleCell(props)
+	}
+
+	public getSiblings({ row, col }: Position): SimpleCell[] {
+		const [even, odd] = HEX_DIRECTIONS[this.layout]
+		const parity = this.layout.endsWith('q') ? col : row
+		const directions = parity % 2 === 0 ? even : odd
+
+		const siblings: SimpleCell[] = []
+		for (const [dx, dy] of directions) {
+			const position = { col: col + dx, row: row + dy }
+			if (this.isInBoundary(position)) {
+				siblings.push(this.getCell(position))
+			}
+		}
+		return siblings
+	}
+
+	public cloneSelf() {
+		return new HexField({
+			rng: this.rng,
+			params: this.params,
+			layout: this.layout,
+			data: this.grid,
+		})
+	}
+}
@@ -0,0 +1,184 @@
+import { createKey, formatPosition } from '../lib/utils'
+import { BaseField } from './base-field'
+import { SimpleCell } from './simple-cell'
+import { Hint, HintReason, MineProbability, Position } from './types'
+
+const pluralize = (count: number, word: string) =>
+	`${count} ${word}${count === 1 ? '' : 's'}`
+
+// Подбирает следующий ход по вероятностям решателя и объясняет его.
+// Сначала ищем ходы с простым локальным объяснением (одна цифра),
+// затем любые достоверные ходы, и только потом наименее рискованную догадку
+export class HintAdvisor {
+	private field: BaseField<SimpleCell>
+	private probabilities: Map<string, MineProbability>
+	private canFlag: boolean
+
+	// canFlag = false - флаги кончились, подсказка flag не сработает
+	constructor(
+		field: BaseField<SimpleCell>,
+		probabilities: MineProbability[],
+		canFlag = true
+	) {
+		this.field = field
+		this.probabilities = new Map(
+			probabilities.map(prob => [createKey(prob.position), prob])
+		)
+		this.canFlag = canFlag
+	}
+
+	public getHint(): Hint | null {
+		const closed = [...this.probabilities.values()]
+
+		const safe = closed.filter(
+			({ value, position }) =>
+				value === 0 && !this.field.getCell(position).isFlagged
+		)
+		const mines = closed.filter(
+			({ value, position }) =>
+				this.canFlag && value === 1 && !this.field.getCell(position).isFlagged
+		)
+
+		// Простые правила считают мины по клеткам, при нескольких минах
+		// в клетке это неверно - остается объяснение через ограничения
+		const isSimple = this.field.maxMinesPerCell === 1
+
+		for (const { position } of isSimple ? safe : []) {
+			const reason = this.explainSafe(position)
+			if (reason) return { type: 'reveal', position, probability: 0, reason }
+		}
+		for (const { position } of isSimple ? mines : []) {
+			const reason = this.explainMine(position)
+			if (reason) return { type: 'flag', position, probability: 1, reason }
+		}
+
+		if (safe.length > 0) {
+			const { position } = safe[0]
+			return {
+				type: 'reveal',
+				position,
+				probability: 0,
+				reason: this.explainByConstraints(position, 'safe'),
+			}
+		}
+		if (mines.length > 0) {
+			const { position } = mines[0]
+			return {
+				type: 'flag',
+				position,
+				probability: 1,
+				reason: this.explainByConstraints(position, 'a mine'),
+			}
+		}
+
+		return this.getGuess(closed)
+	}
+
+	// Цифра рядом с клеткой уже "закрыта" известными минами
+	private explainSafe(position: Position): HintReason | null {
+		for (const source of this.getNumberedNeighbors(position)) {
+			const closed = this.getClosedSiblings(source.position)
+			const known = closed.filter(cell => this.isKnownMine(cell))
+			if (known.length !== source.adjacentMines) continue
+
+			const flagged = known.filter(cell => cell.isFlagged).length
+			const touches =
+				flagged === known.length
+					? `${pluralize(known.length, 'flagged mine')}`
+					: `${pluralize(known.length, 'known mine')}`
+
+			return {
+				rule: 'all-mines-found',
+				source: source.position,
+				value: source.adjacentMines,
+				knownMines: known.length,
+				flaggedMines: flagged,
+				message:
+					`Cell ${formatPosition(source.position)} shows ${source.adjacentMines}` +
+					` and already touches ${touches},` +
+					` so cell ${formatPosition(position)} is safe`,
+			}
+		}
+		return null
+	}
+
+	// Закрытых соседей у цифры ровно столько, сколько мин она показывает
+	private explainMine(position: Position): HintReason | null {
+		for (const source of this.getNumberedNeighbors(position)) {
+			const closed = this.getClosedSiblings(source.position)
+			if (closed.length !== source.adjacentMines) continue
+
+			return {
+				rule: 'all-closed-are-mines',
+				source: source.position,
+				value: source.adjacentMines,
+				knownMines: closed.length,
+				flaggedMines: closed.filter(cell => cell.isFlagged).length,
+				message:
+					`Cell ${formatPosition(source.position)} shows ${source.adjacentMines}` +
+					` and has exactly ${pluralize(closed.length, 'closed neighbour')},` +
+					` so cell ${formatPosition(position)} is a mine`,
+			}
+		}
+		return null
+	}
+
+	private explainByConstraints(
+		position: Position,
+		verdict: 'safe' | 'a mine'
+	): HintReason {
+		const related = this.getNumberedNeighbors(position).map(
+			cell => cell.position
+		)
+		const sources = related.map(formatPosition).join(', ')
+
+		return {
+			rule: 'constraint-analysis',
+			related,
+			message:
+				related.length > 0
+					? `Every mine layout that fits the numbers at ${sources}` +
+						` leaves cell ${formatPosition(position)} ${verdict}`
+					: `The remaining mine count leaves cell ${formatPosition(position)} ${verdict}`,
+		}
+	}
+
+	private getGuess(closed: MineProbability[]): Hint | null {
+		const candidates = closed.filter(
+			({ position }) => !this.field.getCell(position).isFlagged
+		)
+		if (candidates.length === 0) return null
+
+		const best = candidates.reduce((min, prob) =>
+			prob.value < min.value ? prob : min
+		)
+		const percent = Math.round(best.value * 100)
+
+		return {
+			type: 'guess',
+			position: best.position,
+			probability: best.value,
+			reason: {
+				rule: 'lowest-risk',
+				message:
+					`No move is certain. Cell ${formatPosition(best.position)}` +
+					` has the lowest chance of a mine (${percent}%)`,
+			},
+		}
+	}
+
+	private isKnownMine(cell: SimpleCell) {
+		return this.probabilities.get(cell.key)?.value === 1
+	}
+
+	// Открытые цифры, в которых учитывается клетка
+	private getNumberedNeighbors(position: Position): SimpleCell[] {
+		return this.field
+			.getDependents(position)
+			.filter(cell => cell.isRevealed && !cell.isExploded)
+	}
+
+	private getClosedSiblings(position: Position): SimpleCell[] {
+		return this.field.getSiblings(position).filter(cell => !cell.isRevealed)
+	}
+}
@@ -0,0 +1,97 @@
+import {
+	SessionCommand,
+	SessionHandler,
+	SessionMessage,
+	SessionTransport,
+} from './types'
+
+// Клиент внутри процесса: копит полученные сообщения
+export class InMemoryClient {
+	readonly playerId: string
+	readonly messages: SessionMessage[]
+
+	private transport: InMemoryTransport
+	private listener?: (message: SessionMessage) => void
+
+	constructor(
+		playerId: string,
+		transport: InMemoryTransport,
+		listener?: (message: SessionMessage) => void
+	) {
+		this.playerId = playerId
+		this.messages = []
+		this.transport = transport
+		this.listener = listener
+	}
+
+	// Номер последнего изменения, которое видел клиент (для переподключения)
+	get lastSeq(): number | undefined {
+		const seqs = this.messages
+			.filter(
+				message => message.type === 'snapshot' || message.type === 'delta'
+			)
+			.map(message => message.seq)
+
+		return seqs.length > 0 ? Math.max(...seqs) : undefined
+	}
+
+	public send(command: SessionCommand) {
+		this.transport.deliverCommand(this.playerId, command)
+	}
+
+	public disconnect() {
+		this.transport.disconnect(this.playerId)
+	}
+
+	public deliver(message: SessionMessage) {
+		this.messages.push(message)
+		this.listener?.(message)
+	}
+}
+
+// Транспорт для тестов и локальной игры. Сообщения проходят через JSON,
+// как по сети, поэтому клиенты не делят объекты с сервером
+export class InMemoryTransport implements SessionTransport {
+	private handler: SessionHandler | null
+	private clients: Map<string, InMemoryClient>
+
+	constructor() {
+		this.handler = null
+		this.clients = new Map()
+	}
+
+	public attach(handler: SessionHandler) {
+		this.handler = handler
+	}
+
+	public connect(
+		playerId: string,
+		{
+			lastSeq,
+			listener,
+		}: {
+			lastSeq?: number
+			listener?: (message: SessionMessage) => void
+		} = {}
+	): InMemoryClient {
+		const client = new InMemoryClient(playerId, this, listener)
+		this.clients.set(playerId, client)
+		this.handler?.connect(playerId, lastSeq)
+		return client
+	}
+
+	public disconnect(playerId: string) {
+		this.clients.delete(playerId)
+		this.handler?.disconnect(playerId)
+	}
+
+	public send(playerId: string, message: SessionMessage) {
+		this.clients.get(playerId)?.deliver(transfer(message))
+	}
+
+	public deliverCommand(playerId: string, command: SessionCommand) {
+		this.handler?.receive(playerId, transfer(command))
+	}
+}
+
+const transfer = <T>(value: T): T => JSON.parse(JSON.stringify(value))
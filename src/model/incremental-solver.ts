@@ -0,0 +1,184 @@
+import { createKey, parseKey } from '../lib/utils'
+import { BaseField } from './base-field'
+import { FieldFactory } from './field-factory'
+import { GameEngine } from './game-engine'
+import { toPlayerCell } from './player-view'
+import { RegionSolution, RegionSolver } from './region-solver'
+import { SimpleCell } from './simple-cell'
+import {
+	CellData,
+	GameSnapshot,
+	GameStatus,
+	MineProbability,
+	Position,
+	StateUpdate,
+} from './types'
+
+type Region = {
+	constraints: string[] // ключи открытых клеток с цифрами
+	variables: string[] // ключи их закрытых соседей
+	solution: RegionSolution | null // null - регион противоречив
+}
+
+// Решатель, привязанный к движку. После каждого действия перебирает
+// заново только регионы, которых коснулись открытые клетки,
+// остальные берет из кэша. Undo, redo и первый клик (новая раскладка)
+// пересобирают все с нуля
+export class IncrementalSolver {
+	private field: BaseField<SimpleCell>
+	private solver: RegionSolver
+	private status: GameStatus
+
+	private regions: Set<Region>
+	private regionOf: Map<string, Region> // по ключу переменной или ограничения
+	private probabilities: Map<string, number>
+	private unsubscribe: () => void
+
+	constructor(engine: GameEngine) {
+		const snapshot = engine.gameSnapshot
+
+		// Как и Solver, знает только то, что видит игрок
+		this.field = FieldFactory.fromPlayerView(engine.getPlayerView())
+		this.solver = new RegionSolver(this.field)
+		this.status = snapshot.status
+		this.regions = new Set()
+		this.regionOf = new Map()
+		this.probabilities = new Map()
+
+		this.addRegions(snapshot.revealedCells)
+		this.unsubscribe = engine.subscribe(update => this.update(update))
+	}
+
+	// Вероятности для каждой закрытой клетки, как у Solver.solve()
+	public solve(): MineProbability[] {
+		return this.field.cells
+			.filter(cell => !cell.isRevealed)
+			.map(cell => ({
+				position: cell.position,
+				value: this.probabilities.get(cell.key) ?? 0,
+			}))
+	}
+
+	// Вероятность мины в клетке, null для открытой и для дыры
+	public getProbability(position: Position): number | null {
+		const cell = this.field.getCell(position)
+		if (cell.isRevealed || cell.isHole) return null
+		return this.probabilities.get(createKey(position)) ?? 0
+	}
+
+	// Отписывается от движка, вероятности больше не обновляются
+	public detach() {
+		this.unsubscribe()
+	}
+
+	private update({ source, changes, snapshot }: StateUpdate) {
+		if (source !== 'action' || this.status === GameStatus.Idle) {
+			this.rebuild(snapshot)
+			return
+		}
+		this.status = snapshot.status
+
+		const { flaggedCells, unflaggedCells, revealedCells, explodedCells } =
+			changes
+		const opened = [...revealedCells, ...explodedCells]
+		const changed = [...flaggedCells, ...unflaggedCells, ...opened]
+
+		// Флаги снимаются и при открытии, поэтому берем клетки из снимка
+		for (const { position } of changed) {
+			this.syncCell(snapshot.field[position.row][position.col])
+		}
+
+		// Флаги на вероятности не влияют, пересчет нужен только после открытия
+		if (opened.length === 0) return
+
+		// Затронутые регионы: открытая клетка была их переменной
+		// или новая цифра касается их переменных
+		const dirty = new Set<Region>()
+		const candidates = new Map<string, CellData>()
+
+		for (const cell of opened) {
+			const touched = [cell, ...this.field.getSiblings(cell.position)]
+			for (const { key } of touched) {
+				const region = this.regionOf.get(key)
+				if (region) dirty.add(region)
+			}
+			candidates.set(cell.key, this.field.getCellData(cell.position))
+		}
+
+		for (const region of dirty) {
+			this.removeRegion(region)
+			for (const key of region.constraints) {
+				candidates.set(key, this.field.getCellData(parseKey(key)))
+			}
+		}
+
+		// Регионы вне dirty не делят переменных с кандидатами,
+		// поэтому перегруппировка не выходит за их пределы
+		this.addRegions([...candidates.values()])
+	}
+
+	private rebuild(snapshot: GameSnapshot) {
+		this.status = snapshot.status
+		snapshot.field.flat().forEach(cell => this.syncCell(cell))
+
+		this.regions.clear()
+		this.regionOf.clear()
+		this.addRegions(snapshot.revealedCells)
+	}
+
+	// Переносит в свое поле только видимую игроку часть клетки
+	private syncCell(data: CellData) {
+		const {
+			position,
+			isRevealed,
+			isFlagged,
+			isExploded,
+			adjacentMines,
+			mineCount,
+		} = toPlayerCell(data)
+
+		Object.assign(this.field.getCell(position), {
+			mineCount: isExploded ? (mineCount ?? 1) : 0,
+			isRevealed,
+			isFlagged,
+			adjacentMines: adjacentMines ?? 0,
+		})
+	}
+
+	private addRegions(cells: CellData[]) {
+		this.solver.group(cells).forEach(group => this.addRegion(group))
+		this.combine()
+	}
+
+	private addRegion(group: CellData[]) {
+		const variables = new Set<string>()
+		for (const cell of group) {
+			this.field
+				.getSiblings(cell.position)
+				.filter(sibling => !sibling.isRevealed)
+				.forEach(sibling => variables.add(sibling.key))
+		}
+
+		const region: Region = {
+			constraints: group.map(cell => cell.key),
+			variables: [...variables],
+			solution: this.solver.solve(group),
+		}
+
+		this.regions.add(region)
+		region.constraints.forEach(key => this.regionOf.set(key, region))
+		region.variables.forEach(key => this.regionOf.set(key, region))
+	}
+
+	private removeRegion(region: Region) {
+		this.regions.delete(region)
+		region.constraints.forEach(key => this.regionOf.delete(key))
+		region.variables.forEach(key => this.regionOf.delete(key))
+	}
+
+	// Сведение регионов дешевое, его повторяем целиком
+	private combine() {
+		const solutions = [...this.regions].map(region => region.solution)
+		this.probabilities = this.solver.combineField(solutions)
+	}
+}
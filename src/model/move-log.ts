@@ -0,0 +1,81 @@
+import {
+	BOUNDARY_MODES,
+	FIELD_TYPES,
+	FIRST_CLICK_POLICIES,
+	FLAG_OWNERSHIPS,
+	GAME_MODES,
+	GAME_STATUSES,
+	HEX_LAYOUTS,
+} from '../lib/utils'
+import { InvalidFormatError, UnsupportedVersionError } from './errors'
+import { Neighbourhood } from './neighbourhood'
+import { MoveLog } from './types'
+
+export const MOVE_LOG_VERSION = 1
+
+const MOVE_TYPES = ['reveal', 'chord', 'flag', 'undo', 'redo']
+
+const isPosition = (value: unknown): boolean => {
+	const pos = value as { row?: unknown; col?: unknown } | null
+	return Number.isInteger(pos?.row) && Number.isInteger(pos?.col)
+}
+
+// Разбор лога из JSON с проверкой структуры
+export const parseMoveLog = (input: string): MoveLog => {
+	let log: MoveLog
+	try {
+		log = JSON.parse(input)
+	} catch {
+		throw new InvalidFormatError('Move log is not valid JSON')
+	}
+
+	if (typeof log?.version !== 'number') {
+		throw new InvalidFormatError('Move log has no version')
+	}
+	if (log.version !== MOVE_LOG_VERSION) {
+		throw new UnsupportedVersionError(log.version)
+	}
+
+	const isValid =
+		FIELD_TYPES.includes(log.type) &&
+		GAME_MODES.includes(log.mode) &&
+		(log.layout === undefined || HEX_LAYOUTS.includes(log.layout)) &&
+		Number.isInteger(log.params?.rows) &&
+		Number.isInteger(log.params.cols) &&
+		Number.isInteger(log.params.mines) &&
+		(log.params.maxMinesPerCell === undefined ||
+			Number.isInteger(log.params.maxMinesPerCell)) &&
+		(log.boundary === undefined || BOUNDARY_MODES.includes(log.boundary)) &&
+		(log.neighbourhood === undefined ||
+			Neighbourhood.isValid(log.neighbourhood)) &&
+		(log.mask === undefined || typeof log.mask === 'string') &&
+		(log.firstClick === undefined ||
+			FIRST_CLICK_POLICIES.includes(log.firstClick)) &&
+		(log.flagOwnership === undefined ||
+			FLAG_OWNERSHIPS.includes(log.flagOwnership)) &&
+		(log.questionMarks === undefined ||
+			typeof log.questionMarks === 'boolean') &&
+		Array.isArray(log.mines) &&
+		log.mines.every(isPosition) &&
+		(log.revealed === undefined ||
+			(Array.isArray(log.revealed) && log.revealed.every(isPosition))) &&
+		Array.isArray(log.moves) &&
+		log.moves.every(
+			move =>
+				MOVE_TYPES.includes(move?.type) &&
+				GAME_STATUSES.includes(move.status) &&
+				typeof move.timestamp === 'number' &&
+				(move.actor === undefined || typeof move.actor === 'string') &&
+				(move.mines === undefined ||
+					(Array.isArray(move.mines) && move.mines.every(isPosition))) &&
+				(move.type === 'undo' ||
+					move.type === 'redo' ||
+					isPosition(move.position))
+		)
+
+	if (!isValid) {
+		throw new InvalidFormatError('Move log has missing or invalid fields')
+	}
+
+	return log
+}
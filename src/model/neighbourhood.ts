@@ -0,0 +1,90 @@
+import { createKey } from '../lib/utils'
+import { InvalidNeighbourhoodError } from './errors'
+import { NeighbourhoodKernel, NeighbourhoodPreset, Position } from './types'
+
+// Квадрат вокруг клетки, по столбцам - в том же порядке, в каком
+// соседей всегда обходило квадратное поле
+const around = (radius: number): Position[] => {
+	const side = radius * 2 + 1
+	return Array.from({ length: side * side }, (_, i) => ({
+		row: (i % side) - radius,
+		col: Math.floor(i / side) - radius,
+	}))
+}
+
+const PRESETS: Record<NeighbourhoodPreset, Position[]> = {
+	moore: around(1),
+	'von-neumann': [
+		{ row: -1, col: 0 },
+		{ row: 0, col: -1 },
+		{ row: 0, col: 1 },
+		{ row: 1, col: 0 },
+	],
+	knight: [
+		{ row: -2, col: -1 },
+		{ row: -2, col: 1 },
+		{ row: -1, col: -2 },
+		{ row: -1, col: 2 },
+		{ row: 1, col: -2 },
+		{ row: 1, col: 2 },
+		{ row: 2, col: -1 },
+		{ row: 2, col: 1 },
+	],
+	extended: around(2),
+}
+
+// Окрестность клетки квадратного поля: смещения до соседей.
+// Цифра клетки - сумма мин по этим смещениям
+export class Neighbourhood {
+	// Смещения без повторов и без нулевого (клетка себе не сосед)
+	static resolve(kernel: NeighbourhoodKernel = 'moore'): Position[] {
+		if (typeof kernel === 'string' && !Object.keys(PRESETS).includes(kernel)) {
+			throw new InvalidNeighbourhoodError(`Unknown neighbourhood '${kernel}'`)
+		}
+
+		const offsets = typeof kernel === 'string' ? PRESETS[kernel] : kernel
+		if (
+			!offsets.every(
+				({ row, col }) => Number.isInteger(row) && Number.isInteger(col)
+			)
+		) {
+			throw new InvalidNeighbourhoodError(
+				'Neighbourhood offsets must be integers'
+			)
+		}
+
+		const unique = new Map(
+			offsets
+				.filter(({ row, col }) => row !== 0 || col !== 0)
+				.map(offset => [createKey(offset), offset])
+		)
+		if (unique.size === 0) {
+			throw new InvalidNeighbourhoodError('Neighbourhood has no offsets')
+		}
+
+		return [...unique.values()]
+	}
+
+	// Для проверки сохранений и логов ходов
+	static isValid(kernel: unknown): kernel is NeighbourhoodKernel {
+		if (typeof kernel !== 'string' && !Array.isArray(kernel)) return false
+		try {
+			this.resolve(kernel as NeighbourhoodKernel)
+			return true
+		} catch {
+			return false
+		}
+	}
+
+	// Смещения до клеток, в цифрах которых учитывается клетка.
+	// У симметричной окрестности это те же смещения в том же порядке
+	static invert(offsets: Position[]): Position[] {
+		const keys = new Set(offsets.map(createKey))
+		const inverse = offsets.map(({ row, col }) => ({ row: -row, col: -col }))
+		const isSymmetric = inverse.every(({ row, col }) =>
+			keys.has(createKey({ row, col }))
+		)
+
+		return isSymmetric ? offsets : inverse
+	}
+}
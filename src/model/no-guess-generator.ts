@@ -0,0 +1,123 @@
+import { createKey } from '../lib/utils'
+import { BaseField } from './base-field'
+import { BoardAnalyzer } from './board-analyzer'
+import { FieldFactory } from './field-factory'
+import { SimpleCell } from './simple-cell'
+import {
+	FactoryConfig,
+	GenerationOptions,
+	GenerationReport,
+	Position,
+	SolvabilityCheck,
+} from './types'
+
+interface GenerationResult {
+	field: BaseField<SimpleCell>
+	report: GenerationReport
+}
+
+const DEFAULT_MAX_ATTEMPTS = 100
+// Без лимита времени раскладка зависит только от зерна и maxAttempts
+const DEFAULT_TIME_LIMIT = Infinity
+
+export class NoGuessGenerator {
+	private config: FactoryConfig
+	private maxAttempts: number
+	private timeLimit: number
+
+	constructor(
+		config: FactoryConfig,
+		{
+			maxAttempts = DEFAULT_MAX_ATTEMPTS,
+			timeLimit = DEFAULT_TIME_LIMIT,
+		}: GenerationOptions = {}
+	) {
+		this.config = config
+		this.maxAttempts = Math.max(1, maxAttempts)
+		this.timeLimit = timeLimit
+	}
+
+	// Правит раскладку, пока она не станет решаемой без угадываний от первого клика:
+	// там, где решатель застрял, мина переносится в другое место.
+	// Если бюджет исчерпан - возвращает последнюю (обычную) раскладку с isFallback.
+	// exclude - клетки без мин по политике первого клика
+	public generate(start: Position, exclude: Position[]): GenerationResult {
+		const startedAt = Date.now()
+
+		let attempts = 0
+		let field = this.createLayout(exclude)
+
+		do {
+			attempts++
+			const { isSolvable, guessCells } = this.checkFrom(field, start)
+
+			if (isSolvable) {
+				return {
+					field,
+					report: this.createReport(attempts, startedAt, false),
+				}
+			}
+			// Мины на месте догадки нет (или догадка вне фронтира) -
+			// переносить нечего, берем новую раскладку
+			if (!this.relocateMine(field, guessCells, exclude)) {
+				field = this.createLayout(exclude)
+			}
+		} while (
+			attempts < this.maxAttempts &&
+			Date.now() - startedAt < this.timeLimit
+		)
+
+		return { field, report: this.createReport(attempts, startedAt, true) }
+	}
+
+	private createLayout(exclude: Position[]): BaseField<SimpleCell> {
+		const field = FieldFactory.create({ ...this.config, data: undefined })
+		field.placeMines(exclude)
+		return field
+	}
+
+	private checkFrom(
+		field: BaseField<SimpleCell>,
+		start: Position
+	): SolvabilityCheck {
+		const analyzer = new BoardAnalyzer({
+			...this.config,
+			data: field.getState().field,
+		})
+		return analyzer.checkFrom(start)
+	}
+
+	// Случайная мина из клеток догадки уходит в случайную клетку
+	// вне догадки и исключений. false, если переносить нечего или некуда
+	private relocateMine(
+		field: BaseField<SimpleCell>,
+		guessCells: Position[],
+		exclude: Position[]
+	): boolean {
+		const rng = this.config.rng ?? Math.random
+		const pick = <T>(items: T[]): T => items[Math.floor(rng() * items.length)]
+
+		const avoid = new Set([...guessCells, ...exclude].map(createKey))
+		const sources = guessCells.filter(pos => field.getCell(pos).isMine)
+		const targets = field.cells.filter(
+			cell => !avoid.has(cell.key) && cell.mineCount < field.maxMinesPerCell
+		)
+		if (sources.length === 0 || targets.length === 0) return false
+
+		field.relocateMine(pick(sources), pick(targets).position)
+		return true
+	}
+
+	private createReport(
+		attempts: number,
+		startedAt: number,
+		isFallback: boolean
+	): GenerationReport {
+		return {
+			mode: 'no-guessing',
+			attempts,
+			elapsed: Date.now() - startedAt,
+			isFallback,
+		}
+	}
+}
@@ -0,0 +1,44 @@
+import { CellData, FactoryConfig, PlayerCell, PlayerView } from './types'
+
+// Оставляет от клетки только то, что видит игрок
+export const toPlayerCell = ({
+	position,
+	isRevealed,
+	isFlagged,
+	flagCount,
+	isQuestioned,
+	isHole,
+	isExploded,
+	adjacentMines,
+	mineCount,
+	flaggedBy,
+	orientation,
+}: CellData): PlayerCell => ({
+	position,
+	isRevealed,
+	isFlagged,
+	flagCount,
+	isQuestioned,
+	isHole,
+	isExploded,
+	adjacentMines: isRevealed && !isExploded ? adjacentMines : null,
+	...(isExploded && mineCount > 1 && { mineCount }),
+	...(flaggedBy && { flaggedBy }),
+	...(orientation && { orientation }),
+})
+
+export const createPlayerView = (
+	{ type, params, layout, boundary, neighbourhood }: FactoryConfig,
+	field: CellData[][]
+): PlayerView => ({
+	type,
+	params,
+	layout,
+	boundary,
+	neighbourhood,
+	cells: field.map(row => row.map(toPlayerCell)),
+})
+
+export const isPlayerView = (
+	input: FactoryConfig | PlayerView
+): input is PlayerView => 'cells' in input
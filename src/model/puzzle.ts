@@ -0,0 +1,208 @@
+import { formatPosition } from '../lib/utils'
+import { BaseField } from './base-field'
+import { BoardAnalyzer } from './board-analyzer'
+import { InvalidPuzzleError } from './errors'
+import { FieldFactory } from './field-factory'
+import { Solver } from './field-solver'
+import { GameEngine } from './game-engine'
+import { SimpleCell } from './simple-cell'
+import {
+	CellData,
+	FactoryConfig,
+	Position,
+	PuzzleConfig,
+	PuzzleIssue,
+	PuzzleValidation,
+} from './types'
+
+interface PuzzleCheck {
+	validation: PuzzleValidation
+	data: CellData[][] | null // поле для движка, null при ошибках в раскладке
+}
+
+// Головоломки, собранные вручную. В отличие от data в GameEngine,
+// раскладка проверяется: цифры, открытые мины, единственность решения
+// и возможность дойти до победы без догадок
+export class Puzzle {
+	static validate(config: PuzzleConfig): PuzzleValidation {
+		return this.check(config).validation
+	}
+
+	// Партия сразу в статусе Playing, первого клика нет.
+	// Бросает InvalidPuzzleError со всеми найденными проблемами
+	static create({
+		mines,
+		revealed,
+		requireUniqueSolution,
+		...config
+	}: PuzzleConfig): GameEngine {
+		const { validation, data } = this.check({
+			...config,
+			mines,
+			revealed,
+			requireUniqueSolution,
+		})
+		if (!validation.isValid || !data) {
+			throw new InvalidPuzzleError(validation.issues)
+		}
+
+		return new GameEngine({ ...config, data })
+	}
+
+	private static check(config: PuzzleConfig): PuzzleCheck {
+		const issues: PuzzleIssue[] = []
+		const fieldConfig = this.getFieldConfig(config)
+		const field = this.createField(config, fieldConfig, issues)
+
+		if (field) this.checkLayout(config, field, issues)
+		if (!field || issues.length > 0) {
+			return {
+				validation: {
+					isValid: false,
+					uniqueSolution: false,
+					noGuessing: false,
+					issues,
+				},
+				data: null,
+			}
+		}
+
+		// Решатель точный: все вероятности 0 или 1 - раскладка одна.
+		// Единственное решение не требует догадок, обратное неверно:
+		// цифры, которые откроются по ходу, тоже сужают выбор
+		const data = field.getState().field
+		const uniqueSolution = new Solver({ ...fieldConfig, data })
+			.solve()
+			.every(prob => prob.value === 0 || prob.value === 1)
+		const noGuessing =
+			uniqueSolution ||
+			new BoardAnalyzer({ ...fieldConfig, data }).isSolvableFromRevealed()
+
+		if (!uniqueSolution && config.requireUniqueSolution !== false) {
+			issues.push({
+				type: 'multiple-solutions',
+				message: 'More than one mine layout fits the revealed numbers',
+			})
+		}
+		if (!noGuessing) {
+			issues.push({
+				type: 'needs-guessing',
+				message: 'The puzzle cannot be won without guessing',
+			})
+		}
+
+		return {
+			validation: {
+				isValid: issues.length === 0,
+				uniqueSolution,
+				noGuessing,
+				issues,
+			},
+			data,
+		}
+	}
+
+	// Поле по data или пустое, поверх - мины и открытые клетки из списков
+	private static createField(
+		{ params, data, mines = [], revealed = [] }: PuzzleConfig,
+		fieldConfig: FactoryConfig,
+		issues: PuzzleIssue[]
+	): BaseField<SimpleCell> | null {
+		const { rows, cols } = params
+		if (
+			data &&
+			(data.length !== rows || data.some(row => row.length !== cols))
+		) {
+			issues.push({
+				type: 'size-mismatch',
+				message: `Puzzle data does not match a ${rows}x${cols} field`,
+			})
+			return null
+		}
+
+		const field = FieldFactory.create({ ...fieldConfig, data })
+		const isCell = ({ row, col }: Position) =>
+			row >= 0 &&
+			row < rows &&
+			col >= 0 &&
+			col < cols &&
+			!field.getCell({ row, col }).isHole
+
+		const outside = [...mines, ...revealed].filter(pos => !isCell(pos))
+		for (const position of outside) {
+			issues.push({
+				type: 'out-of-bounds',
+				position,
+				message: `Cell ${formatPosition(position)} is outside the field`,
+			})
+		}
+		if (outside.length > 0) return null
+
+		mines.forEach(position => field.getCell(position).mineCount++)
+		revealed.forEach(position => (field.getCell(position).isRevealed = true))
+		field.recountAdjacentMines()
+
+		return field
+	}
+
+	private static checkLayout(
+		{ params, data }: PuzzleConfig,
+		field: BaseField<SimpleCell>,
+		issues: PuzzleIssue[]
+	) {
+		const cells = field.cells
+		const mines = cells.reduce((sum, cell) => sum + cell.mineCount, 0)
+		if (mines !== params.mines) {
+			issues.push({
+				type: 'mine-count',
+				message: `Puzzle has ${mines} mines, expected ${params.mines}`,
+			})
+		}
+
+		for (const { position, mineCount, isRevealed, adjacentMines } of cells) {
+			if (mineCount > field.maxMinesPerCell) {
+				issues.push({
+					type: 'overfilled-cell',
+					position,
+					message: `Cell ${formatPosition(position)} has ${mineCount} mines`,
+				})
+			}
+			if (isRevealed && mineCount > 0) {
+				issues.push({
+					type: 'revealed-mine',
+					position,
+					message: `Cell ${formatPosition(position)} is revealed but has a mine`,
+				})
+			}
+
+			const given = data?.[position.row][position.col].adjacentMines
+			if (given !== undefined && given !== adjacentMines) {
+				issues.push({
+					type: 'wrong-number',
+					position,
+					message:
+						`Cell ${formatPosition(position)} shows ${given},` +
+						` but ${adjacentMines} mines are around it`,
+				})
+			}
+		}
+
+		if (!cells.some(cell => cell.isRevealed)) {
+			issues.push({
+				type: 'nothing-revealed',
+				message: 'Puzzle has no revealed cells',
+			})
+		}
+	}
+
+	private static getFieldConfig({
+		type,
+		params,
+		layout,
+		boundary,
+		neighbourhood,
+		mask,
+	}: PuzzleConfig): FactoryConfig {
+		return { type, params, layout, boundary, neighbourhood, mask }
+	}
+}
@@ -0,0 +1,211 @@
+import { SeededRandom } from '../lib/random'
+import { findCenter } from '../lib/utils'
+import { InvalidRaceError } from './errors'
+import { FieldFactory } from './field-factory'
+import { GameEngine } from './game-engine'
+import {
+	ActionResult,
+	CellData,
+	GameStatus,
+	MineSweeperConfig,
+	Position,
+	RaceConfig,
+	RaceStanding,
+	RaceStatus,
+} from './types'
+
+// Порядок в таблице: победители, затем еще играющие, затем проигравшие
+const STATUS_ORDER: Record<GameStatus, number> = {
+	[GameStatus.Won]: 0,
+	[GameStatus.Playing]: 1,
+	[GameStatus.Idle]: 1,
+	[GameStatus.Lost]: 2,
+}
+
+// Гонка на одинаковых досках: у каждого игрока свой движок с общим зерном.
+// Раскладка зависит от первого клика, поэтому его делает старт - одну
+// и ту же клетку у всех. Мины расставляются один раз на отдельной доске,
+// игроки получают готовое поле, и доски совпадают до последней мины
+export class RaceCoordinator {
+	readonly seed: number
+
+	private config: MineSweeperConfig
+	private clock: () => number
+	private engines: Map<string, GameEngine>
+	private startPosition: Position
+	private now: number | null // общее время всех досок на время старта и таблицы
+	private status: RaceStatus
+	private listeners: Set<(standings: RaceStanding[]) => void>
+
+	constructor({
+		players,
+		start,
+		seed,
+		firstClick = 'safe-opening',
+		clock = Date.now,
+		...config
+	}: RaceConfig) {
+		if (players.length === 0) {
+			throw new InvalidRaceError('Race needs at least one player')
+		}
+		if (new Set(players).size !== players.length) {
+			throw new InvalidRaceError('Race player ids must be unique')
+		}
+
+		const { rows, cols } = config.params
+		const field = FieldFactory.create(config)
+
+		this.seed = SeededRandom.hashSeed(seed ?? SeededRandom.randomSeed())
+		this.startPosition =
+			start ?? findCenter(rows, cols, pos => !field.getCell(pos).isHole)!
+		this.status = 'waiting'
+		this.listeners = new Set()
+		this.clock = clock
+		this.now = null
+		this.config = {
+			...config,
+			seed: this.seed,
+			firstClick,
+			clock: () => this.now ?? this.clock(),
+		}
+		this.engines = new Map(
+			players.map(playerId => [playerId, this.createEngine()])
+		)
+	}
+
+	get raceStatus(): RaceStatus {
+		return this.status
+	}
+
+	get players(): string[] {
+		return [...this.engines.keys()]
+	}
+
+	// Живая таблица: победители по времени, остальные по решенному 3BV
+	get standings(): RaceStanding[] {
+		return this.atSameTime(() => this.createStandings())
+	}
+
+	// Общий старт: всем открывается одна и та же клетка, таймеры идут вместе.
+	// Генератор no-guessing ограничен временем и на разных движках может
+	// остановиться на разных попытках, поэтому раскладку строим один раз,
+	// до старта таймеров. Первые клики получают одно и то же время
+	public start() {
+		if (this.status !== 'waiting') return
+
+		const data = this.createLayout()
+		this.players.forEach(playerId =>
+			this.engines.set(playerId, this.createEngine(data))
+		)
+
+		this.status = 'running'
+		this.atSameTime(() =>
+			this.engines.forEach(engine =>
+				engine.revealCell(this.startPosition).apply()
+			)
+		)
+	}
+
+	// Ход игрока. null, если гонка не идет или игрок уже закончил
+	public revealCell(playerId: string, pos: Position): ActionResult | null {
+		const engine = this.getActiveEngine(playerId)
+		return engine ? engine.revealCell(pos) : null
+	}
+
+	public toggleFlag(playerId: string, pos: Position): ActionResult | null {
+		const engine = this.getActiveEngine(playerId)
+		return engine ? engine.toggleFlag(pos) : null
+	}
+
+	// Слушатель получает таблицу после каждого изменения на любой доске
+	public subscribe(listener: (standings: RaceStanding[]) => void): () => void {
+		this.listeners.add(listener)
+		return () => this.listeners.delete(listener)
+	}
+
+	private createEngine(data?: CellData[][]): GameEngine {
+		const engine = new GameEngine({ ...this.config, data })
+		engine.subscribe(() => this.update())
+		return engine
+	}
+
+	// Раскладка после первого клика на доске вне гонки, без открытых клеток
+	private createLayout(): CellData[][] {
+		const engine = new GameEngine(this.config)
+		engine.revealCell(this.startPosition).apply()
+
+		return engine.gameSnapshot.field.map(row =>
+			row.map(cell => ({ ...cell, isRevealed: false }))
+		)
+	}
+
+	private getActiveEngine(playerId: string): GameEngine | null {
+		const engine = this.engines.get(playerId)
+		if (!engine || this.status !== 'running') return null
+
+		const { status } = engine.gameSnapshot
+		return status === GameStatus.Playing ? engine : null
+	}
+
+	private update() {
+		if (this.status === 'waiting') return
+
+		const standings = this.standings
+		const isFinished = standings.every(
+			({ status }) => status === GameStatus.Won || status === GameStatus.Lost
+		)
+		if (isFinished) this.status = 'finished'
+
+		for (const listener of [...this.listeners]) {
+			listener(standings)
+		}
+	}
+
+	// Все доски читают одно и то же время, пока выполняется action
+	private atSameTime<T>(action: () => T): T {
+		if (this.now !== null) return action()
+
+		this.now = this.clock()
+		try {
+			return action()
+		} finally {
+			this.now = null
+		}
+	}
+
+	private createStandings(): RaceStanding[] {
+		return [...this.engines.entries()]
+			.map(([playerId, engine]) => this.createStanding(playerId, engine))
+			.sort(
+				(a, b) =>
+					STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+					(a.status === GameStatus.Won
+						? a.elapsed - b.elapsed
+						: b.solvedBbbv - a.solvedBbbv)
+			)
+			.map((standing, index) => ({ ...standing, rank: index + 1 }))
+	}
+
+	private createStanding(
+		playerId: string,
+		engine: GameEngine
+	): Omit<RaceStanding, 'rank'> {
+		const { status, stats, revealedCells, field } = engine.gameSnapshot
+		const { mines } = engine.fieldConfig.params
+		const cells = field.flat().filter(cell => !cell.isHole)
+		// До первого клика мин еще нет. В клетке может быть несколько мин,
+		// поэтому после расстановки считаем клетки, а не params.mines
+		const minedCells = cells.filter(cell => cell.isMine).length || mines
+
+		return {
+			playerId,
+			status,
+			revealedCells: revealedCells.filter(cell => !cell.isMine).length,
+			safeCells: cells.length - minedCells,
+			bbbv: stats.bbbv,
+			solvedBbbv: stats.solvedBbbv,
+			progress: stats.bbbv > 0 ? stats.solvedBbbv / stats.bbbv : 0,
+			elapsed: stats.elapsed,
+		}
+	}
+}
@@ -0,0 +1,429 @@
+import { createKey, logArrangements } from '../lib/utils'
+import { BaseField } from './base-field'
+import { SimpleCell } from './simple-cell'
+import { CellData } from './types'
+
+type Constraint = {
+	cell: CellData
+	neighbors: string[] // ключи соседних закрытых ячеек
+	mines: number // цифра на клетке за вычетом уже взорванных мин
+}
+
+// Результат перебора одного региона. Переменная - число мин в клетке,
+// от 0 до maxMinesPerCell (в обычной игре 0 или 1).
+// totals[k] - число допустимых конфигураций региона ровно с k минами,
+// hits[k][i] - сколько из них содержат хотя бы одну мину в variables[i]
+export type RegionSolution = {
+	variables: string[]
+	totals: number[]
+	hits: number[][]
+}
+
+// Состояние динамики: частичные суммы мин по активным ограничениям
+// и число путей до этого состояния, разложенное по количеству мин
+type DPState = {
+	sums: number[]
+	counts: number[]
+}
+
+type DPLayer = Map<string, DPState>
+
+type Weights = {
+	weights: number[]
+	occupancy: number[]
+}
+
+// Точный перебор регионов фронтира: открытых клеток с цифрами,
+// связанных через общие закрытые клетки. Общий для Solver, IncrementalSolver
+// и BoardAnalyzer
+export class RegionSolver {
+	private field: BaseField<SimpleCell>
+
+	constructor(field: BaseField<SimpleCell>) {
+		this.field = field
+	}
+
+	// Вероятности мин для всех закрытых клеток поля.
+	// Фронтир разбивается на независимые регионы, каждый регион перебирается
+	// динамикой по ограничениям, а затем регионы и внутренние клетки
+	// (не касающиеся ни одной цифры) сводятся вместе через общее число мин
+	public solveField(): Map<string, number> {
+		const revealed = this.field.cells
+			.filter(cell => cell.isRevealed)
+			.map(cell => cell.getData())
+
+		return this.combineField(
+			this.group(revealed).map(region => this.solve(region))
+		)
+	}
+
+	// Сводит готовые решения регионов с внутренними клетками поля
+	// через число оставшихся (не взорванных) мин
+	public combineField(regions: (RegionSolution | null)[]): Map<string, number> {
+		const solutions: RegionSolution[] = []
+		const frontier = new Set<string>()
+
+		for (const solution of regions) {
+			// Противоречивый регион (нет допустимых конфигураций) не учитываем
+			if (!solution) continue
+
+			solutions.push(solution)
+			solution.variables.forEach(key => frontier.add(key))
+		}
+
+		const cells = this.field.cells
+		const interior = cells
+			.filter(cell => !cell.isRevealed && !frontier.has(cell.key))
+			.map(cell => cell.key)
+		const exploded = cells
+			.filter(cell => cell.isExploded)
+			.reduce((sum, cell) => sum + cell.mineCount, 0)
+
+		return RegionSolver.combine(
+			solutions,
+			interior,
+			this.field.params.mines - exploded,
+			this.field.maxMinesPerCell
+		)
+	}
+
+	// Считает все допустимые конфигурации региона.
+	// null, если регион противоречив (нет ни одной конфигурации)
+	public solve(region: CellData[]): RegionSolution | null {
+		return this.solveConstraints(this.createConstraints(region))
+	}
+
+	private createConstraints(region: CellData[]): Constraint[] {
+		return region.map(cell => {
+			const siblings = this.field.getSiblings(cell.position)
+			const closed = siblings.filter(s => !s.isRevealed)
+			const exploded = siblings.filter(s => s.isExploded)
+
+			return {
+				cell,
+				neighbors: closed.map(s => createKey(s.position)),
+				mines:
+					cell.adjacentMines -
+					exploded.reduce((sum, s) => sum + s.mineCount, 0),
+			}
+		})
+	}
+
+	// Переменные упорядочены вдоль фронтира, поэтому одновременно "открыто"
+	// лишь несколько ограничений, и число состояний динамики остается малым
+	private solveConstraints(constraints: Constraint[]): RegionSolution | null {
+		const variables = this.orderVariables(constraints)
+		const index = new Map(variables.map((key, i) => [key, i]))
+		const capacity = this.field.maxMinesPerCell
+		const values = Array.from({ length: capacity + 1 }, (_, value) => value)
+
+		const members = constraints.map(c =>
+			c.neighbors.map(key => index.get(key)!).sort((a, b) => a - b)
+		)
+		const first = members.map(m => m[0])
+		const last = members.map(m => m[m.length - 1])
+
+		// Для каждого шага: ограничения, затронутые шагом, и активные после него
+		const touched: number[][] = []
+		const active: number[][] = [[]]
+		for (let i = 0; i < variables.length; i++) {
+			const prev = active[i]
+			const opened = constraints.map((_, c) => c).filter(c => first[c] === i)
+			touched.push([...prev, ...opened])
+			active.push(touched[i].filter(c => last[c] > i))
+		}
+
+		const transition = (
+			step: number,
+			sums: number[],
+			value: number
+		): number[] | null => {
+			const prev = active[step]
+			const next = active[step + 1]
+			const updated = new Map<number, number>()
+
+			for (const [pos, c] of touched[step].entries()) {
+				const base = pos < prev.length ? sums[pos] : 0
+				const sum = members[c].includes(step) ? base + value : base
+				const rest = members[c].filter(v => v > step).length * capacity
+
+				if (sum > constraints[c].mines) return null
+				if (sum + rest < constraints[c].mines) return null
+
+				updated.set(c, sum)
+			}
+
+			return next.map(c => updated.get(c)!)
+		}
+
+		// Прямой проход
+		const layers: DPLayer[] = [new Map([['', { sums: [], counts: [1] }]])]
+
+		for (let i = 0; i < variables.length; i++) {
+			const layer: DPLayer = new Map()
+
+			for (const state of layers[i].values()) {
+				for (const value of values) {
+					const sums = transition(i, state.sums, value)
+					if (!sums) continue
+
+					const key = sums.join(',')
+					const target = layer.get(key) ?? { sums, counts: [] }
+					addShifted(target.counts, state.counts, value)
+					layer.set(key, target)
+				}
+			}
+
+			if (layer.size === 0) return null
+			layers.push(layer)
+		}
+
+		const totals = layers[variables.length].get('')?.counts ?? []
+		if (totals.every(count => count === 0)) return null
+
+		// Обратный проход: число продолжений из каждого состояния
+		const hits: number[][] = Array.from({ length: totals.length }, () =>
+			Array(variables.length).fill(0)
+		)
+		let tails = new Map<string, number[]>([['', [1]]])
+
+		for (let i = variables.length - 1; i >= 0; i--) {
+			const prevTails = new Map<string, number[]>()
+
+			for (const [key, state] of layers[i]) {
+				const tail: number[] = []
+
+				for (const value of values) {
+					const sums = transition(i, state.sums, value)
+					if (!sums) continue
+
+					const nextTail = tails.get(sums.join(','))
+					if (!nextTail) continue
+
+					addShifted(tail, nextTail, value)
+
+					if (value > 0) {
+						const paths = convolve(state.counts, nextTail)
+						paths.forEach((count, k) => {
+							if (count) hits[k + value][i] += count
+						})
+					}
+				}
+
+				prevTails.set(key, tail)
+			}
+
+			tails = prevTails
+		}
+
+		// Масштаб региона сокращается в итоговых вероятностях,
+		// нормируем, чтобы произведения регионов не переполнялись
+		const scale = Math.max(...totals)
+		return {
+			variables,
+			totals: totals.map(count => count / scale),
+			hits: hits.map(row => row.map(count => count / scale)),
+		}
+	}
+
+	// Обход переменных в ширину от периферийной переменной
+	private orderVariables(constraints: Constraint[]): string[] {
+		const adjacency = new Map<string, Set<string>>()
+		for (const { neighbors } of constraints) {
+			for (const key of neighbors) {
+				const linked = adjacency.get(key) ?? new Set()
+				neighbors.forEach(other => other !== key && linked.add(other))
+				adjacency.set(key, linked)
+			}
+		}
+
+		const traverse = (start: string): string[] => {
+			const order = [start]
+			const visited = new Set(order)
+			for (let i = 0; i < order.length; i++) {
+				for (const next of adjacency.get(order[i])!) {
+					if (visited.has(next)) continue
+					visited.add(next)
+					order.push(next)
+				}
+			}
+			return order
+		}
+
+		// Второй обход от самой дальней точки первого дает узкий фронт
+		const rough = traverse(adjacency.keys().next().value!)
+		return traverse(rough[rough.length - 1])
+	}
+
+	// Сводит регионы и внутренние клетки через глобальное число мин:
+	// вес конфигурации фронтира с m минами = число раскладок оставшихся
+	// мин по внутренним клеткам (C(внутренние, оставшиеся - m) в обычной игре)
+	static combine(
+		solutions: RegionSolution[],
+		interior: string[],
+		remainingMines: number,
+		capacity = 1
+	): Map<string, number> {
+		const probabilities = new Map<string, number>()
+		const { weights, occupancy } =
+			capacity > 1
+				? this.arrangementWeights(interior.length, remainingMines, capacity)
+				: this.binomialWeights(interior.length, remainingMines)
+		const weightOf = (mines: number) => weights[remainingMines - mines] ?? 0
+		const occupancyOf = (mines: number) =>
+			occupancy[remainingMines - mines] ?? 0
+
+		// Распределения числа мин "всех регионов, кроме r"
+		const prefix: number[][] = [[1]]
+		for (const { totals } of solutions) {
+			prefix.push(convolve(prefix[prefix.length - 1], totals))
+		}
+		const suffix: number[][] = [[1]]
+		for (const { totals } of [...solutions].reverse()) {
+			suffix.unshift(convolve(totals, suffix[0]))
+		}
+
+		solutions.forEach(({ variables, totals, hits }, r) => {
+			const others = convolve(prefix[r], suffix[r + 1])
+			const outer = totals.map((_, k) =>
+				others.reduce((acc, count, m) => acc + count * weightOf(k + m), 0)
+			)
+			const total = totals.reduce((acc, count, k) => acc + count * outer[k], 0)
+			if (total === 0) return
+
+			variables.forEach((key, i) => {
+				const safe = totals.reduce(
+					(acc, count, k) => acc + (count - hits[k][i]) * outer[k],
+					0
+				)
+				probabilities.set(key, 1 - safe / total)
+			})
+		})
+
+		if (interior.length > 0) {
+			const frontier = prefix[prefix.length - 1]
+			const total = frontier.reduce(
+				(acc, count, m) => acc + count * weightOf(m),
+				0
+			)
+			const expected = frontier.reduce(
+				(acc, count, m) => acc + count * weightOf(m) * occupancyOf(m),
+				0
+			)
+			const value = total > 0 ? expected / total : 0
+			interior.forEach(key => probabilities.set(key, value))
+		}
+
+		return probabilities
+	}
+
+	// weights[j] пропорционален C(cells, j); считаем в логарифмах,
+	// так как на больших полях сами биномиальные коэффициенты огромны.
+	// occupancy[j] - вероятность мины в одной клетке при j минах на cells клеток
+	private static binomialWeights(cells: number, mines: number): Weights {
+		const logFactorial = [0]
+		for (let i = 1; i <= cells; i++) {
+			logFactorial.push(logFactorial[i - 1] + Math.log(i))
+		}
+
+		const logs = Array.from({ length: Math.max(mines + 1, 0) }, (_, j) =>
+			j > cells
+				? -Infinity
+				: logFactorial[cells] - logFactorial[j] - logFactorial[cells - j]
+		)
+		const max = Math.max(...logs)
+
+		return {
+			weights: logs.map(log => (log === -Infinity ? 0 : Math.exp(log - max))),
+			occupancy: logs.map((_, j) => (cells > 0 ? j / cells : 0)),
+		}
+	}
+
+	// То же для нескольких мин в клетке: weights[j] пропорционален числу
+	// раскладок j мин по cells клеткам, occupancy[j] - вероятность,
+	// что в одной клетке есть хотя бы одна мина
+	private static arrangementWeights(
+		cells: number,
+		mines: number,
+		capacity: number
+	): Weights {
+		const table = logArrangements(cells, Math.max(mines, 0), capacity)
+		const logs = table[cells]
+		const max = Math.max(...logs)
+
+		return {
+			weights: logs.map(log => (log === -Infinity ? 0 : Math.exp(log - max))),
+			occupancy: logs.map((log, j) =>
+				cells > 0 && log !== -Infinity
+					? 1 - Math.exp(table[cells - 1][j] - log)
+					: 0
+			),
+		}
+	}
+
+	// Определяем список групп (регионов), каждая из которых включает открытые клетки,
+	// связанные через общие закрытые клетки. Ограничения разных регионов
+	// не имеют общих переменных, поэтому регионы решаются независимо
+	public group(cells: CellData[]): CellData[][] {
+		const visited = new Set<string>()
+		const regions: CellData[][] = []
+
+		const isConstraint = (cell: CellData) =>
+			cell.isRevealed &&
+			!cell.isExploded &&
+			this.field.getSiblings(cell.position).some(s => !s.isRevealed)
+
+		for (const cell of cells) {
+			const key = createKey(cell.position)
+			// Пропускаем "мёртвые" открытые клетки (не имеющие закрытых соседей)
+			if (visited.has(key) || !isConstraint(cell)) continue
+
+			const group: CellData[] = []
+			const queue: CellData[] = [cell]
+			visited.add(key)
+
+			while (queue.length > 0) {
+				const current = queue.pop()!
+				group.push(current)
+
+				const closed = this.field
+					.getSiblings(current.position)
+					.filter(s => !s.isRevealed)
+
+				for (const variable of closed) {
+					// Цифры, которые учитывают эту переменную
+					for (const neighbor of this.field.getDependents(variable.position)) {
+						const neighborKey = createKey(neighbor.position)
+						if (visited.has(neighborKey) || !isConstraint(neighbor)) continue
+
+						visited.add(neighborKey)
+						queue.push(neighbor.getData())
+					}
+				}
+			}
+
+			regions.push(group)
+		}
+
+		return regions
+	}
+}
+
+// Прибавляет к target распределение source, сдвинутое на shift мин
+const addShifted = (target: number[], source: number[], shift: number) => {
+	while (target.length < source.length + shift) target.push(0)
+	source.forEach((count, k) => {
+		target[k + shift] += count
+	})
+}
+
+const convolve = (a: number[], b: number[]): number[] => {
+	const result: number[] = Array(Math.max(a.length + b.length - 1, 0)).fill(0)
+	a.forEach((x, i) => {
+		if (!x) return
+		b.forEach((y, j) => {
+			if (y) result[i + j] += x * y
+		})
+	})
+	return result
+}
@@ -0,0 +1,180 @@
+import { createGrid, createKey } from '../lib/utils'
+import { FieldFactory } from './field-factory'
+import { GameEngine } from './game-engine'
+import { parseMoveLog } from './move-log'
+import { GameSnapshot, MoveLog, MoveRecord, Position } from './types'
+
+// Детерминированное воспроизведение партии по логу ходов (GameEngine.moveLog).
+// Все промежуточные состояния считаются один раз при создании
+export class Replay {
+	readonly log: MoveLog
+
+	private snapshots: GameSnapshot[]
+	private cursor: number
+
+	constructor(log: MoveLog) {
+		this.log = log
+		this.snapshots = this.createSnapshots()
+		this.cursor = 0
+	}
+
+	static import(input: string): Replay {
+		return new Replay(parseMoveLog(input))
+	}
+
+	public export(): string {
+		return JSON.stringify(this.log)
+	}
+
+	// Количество ходов в логе
+	get length(): number {
+		return this.log.moves.length
+	}
+
+	// Сколько ходов применено к текущему состоянию
+	get position(): number {
+		return this.cursor
+	}
+
+	get snapshot(): GameSnapshot {
+		return this.snapshots[this.cursor]
+	}
+
+	// Последний примененный ход (null в начальном состоянии)
+	get move(): MoveRecord | null {
+		return this.log.moves[this.cursor - 1] ?? null
+	}
+
+	get canStepForward(): boolean {
+		return this.cursor < this.length
+	}
+
+	get canStepBack(): boolean {
+		return this.cursor > 0
+	}
+
+	public stepForward(): GameSnapshot | null {
+		if (!this.canStepForward) return null
+		return this.seek(this.cursor + 1)
+	}
+
+	public stepBack(): GameSnapshot | null {
+		if (!this.canStepBack) return null
+		return this.seek(this.cursor - 1)
+	}
+
+	// Переход к состоянию после index ходов
+	public seek(index: number): GameSnapshot {
+		this.cursor = Math.min(Math.max(0, index), this.length)
+		return this.snapshot
+	}
+
+	// Часы движка идут по меткам времени из лога,
+	// поэтому таймер и 3BV/s в снимках совпадают с исходной партией.
+	// Первый клик после отмены до Idle дает новую раскладку: движок
+	// пересобирается с ней, и предыдущие ходы повторяются без снимков
+	private createSnapshots(): GameSnapshot[] {
+		const { moves } = this.log
+		let now = moves[0]?.timestamp ?? 0
+		const clock = () => now
+
+		const starts = moves.filter(move => move.mines)
+		let engine = this.createEngine(clock, starts[0]?.mines ?? this.log.mines)
+		const snapshots = [engine.gameSnapshot]
+
+		moves.forEach((move, index) => {
+			if (move.mines && move !== starts[0]) {
+				engine = this.createEngine(clock, move.mines)
+				for (const previous of moves.slice(0, index)) {
+					now = previous.timestamp
+					this.applyMove(engine, previous)
+				}
+			}
+
+			now = move.timestamp
+			this.applyMove(engine, move)
+			snapshots.push(engine.gameSnapshot)
+		})
+
+		return snapshots
+	}
+
+	private applyMove(engine: GameEngine, move: MoveRecord) {
+		switch (move.type) {
+			case 'undo':
+				engine.undo()
+				break
+			case 'redo':
+				engine.redo()
+				break
+			case 'flag':
+				engine.toggleFlag(move.position!, move.actor).apply()
+				break
+			case 'reveal':
+			case 'chord':
+				engine.revealCell(move.position!, move.actor).apply()
+				break
+		}
+	}
+
+	// Движок с раскладкой из лога и политикой первого клика исходной партии:
+	// клетки вокруг первого клика уже свободны (или политика 'none'),
+	// поэтому ни генерация, ни перенос мины не срабатывают. Зерно передается
+	// и с раскладкой: повторы ходов до отмены переносят мины повторяемо
+	private createEngine(clock: () => number, mines: Position[]): GameEngine {
+		const {
+			type,
+			params,
+			layout,
+			boundary,
+			neighbourhood,
+			mask,
+			seed,
+			firstClick,
+			flagOwnership,
+			questionMarks,
+			revealed = [],
+		} = this.log
+		const config = {
+			type,
+			params,
+			layout,
+			boundary,
+			neighbourhood,
+			mask,
+			firstClick,
+			flagOwnership,
+			questionMarks,
+			clock,
+		}
+
+		if (mines.length === 0) {
+			return new GameEngine({ ...config, seed, historyDepth: Infinity })
+		}
+
+		// Клетка с несколькими минами записана в лог несколько раз
+		const mined = new Map<string, number>()
+		for (const position of mines) {
+			const key = createKey(position)
+			mined.set(key, (mined.get(key) ?? 0) + 1)
+		}
+		// Головоломка начинается с открытых клеток, движок сразу в Playing
+		const opened = new Set(revealed.map(createKey))
+		const cells = createGrid(params.rows, params.cols, position => {
+			const mineCount = mined.get(createKey(position)) ?? 0
+			return {
+				isMine: mineCount > 0,
+				mineCount,
+				isRevealed: opened.has(createKey(position)),
+				isFlagged: false,
+			}
+		})
+
+		return new GameEngine({
+			...config,
+			seed,
+			data: FieldFactory.restore(config, cells).getState().field,
+			historyDepth: Infinity,
+		})
+	}
+}
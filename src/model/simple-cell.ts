@@ -4,28 +4,57 @@ import { CellData, ConstructorCellProps, Position } from './types'
 export class SimpleCell implements CellData {
 	public readonly key: string
 	public readonly position: Position
-	public isMine: boolean
+	public mineCount: number
 	public isRevealed: boolean
-	public isFlagged: boolean
+	public flagCount: number
+	public isQuestioned: boolean
+	public readonly isHole: boolean
 	public adjacentMines: number
+	public flaggedBy?: string
 
 	constructor({
 		position,
 		adjacentMines = 0,
 		isFlagged = false,
+		flagCount,
+		isQuestioned = false,
+		isHole = false,
 		isMine = false,
+		mineCount,
 		isRevealed = false,
+		flaggedBy,
 	}: ConstructorCellProps) {
 		this.key = createKey(position)
 		this.position = position
-		this.isMine = isMine
+		this.mineCount = mineCount ?? (isMine ? 1 : 0)
 		this.isRevealed = isRevealed
-		this.isFlagged = isFlagged
+		this.flagCount = flagCount ?? (isFlagged ? 1 : 0)
+		this.isQuestioned = isQuestioned
+		this.isHole = isHole
 		this.adjacentMines = adjacentMines
+		this.flaggedBy = flaggedBy
+	}
+
+	// Для обычной игры мина одна: isMine = true ставит одну мину,
+	// false убирает все. Несколько мин задаются через mineCount
+	public get isMine() {
+		return this.mineCount > 0
+	}
+
+	public set isMine(value: boolean) {
+		this.mineCount = value ? Math.max(this.mineCount, 1) : 0
+	}
+
+	public get isFlagged() {
+		return this.flagCount > 0
+	}
+
+	public set isFlagged(value: boolean) {
+		this.flagCount = value ? Math.max(this.flagCount, 1) : 0
 	}
 
 	public get isEmpty() {
-		return !this.isMine && this.adjacentMines === 0
+		return !this.isHole && !this.isMine && this.adjacentMines === 0
 	}
 
 	public get isExploded() {
@@ -47,6 +76,8 @@ export class SimpleCell implements CellData {
 	public getData(): CellData {
 		return {
 			...this,
+			isMine: this.isMine,
+			isFlagged: this.isFlagged,
 			isEmpty: this.isEmpty,
 			isExploded: this.isExploded,
 			notFoundMine: this.notFoundMine,
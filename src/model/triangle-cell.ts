@@ -0,0 +1,13 @@
+import { SimpleCell } from './simple-cell'
+import { CellOrientation, ConstructorCellProps } from './types'
+
+export class TriangleCell extends SimpleCell {
+	public readonly orientation: CellOrientation
+
+	constructor(props: ConstructorCellProps) {
+		super(props)
+		// Ориентация чередуется в шахматном порядке, (0, 0) смотрит вершиной вверх
+		const { col, row } = props.position
+		this.orientation = (col + row) % 2 === 0 ? 'up' : 'down'
+	}
+}
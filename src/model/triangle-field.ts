@@ -0,0 +1,45 @@
+import { ConstructorCellProps, ConstrutorFieldProps, Position } from './types'
+import { BaseField } from './base-field'
+import { TriangleCell } from './triangle-cell'
+
+export class TriangleField extends BaseField<TriangleCell> {
+	constructor({ params, rng, data }: ConstrutorFieldProps) {
+		super({ params, data, rng })
+	}
+
+	protected createCell(props: ConstructorCellProps) {
+		return new TriangleCell(props)
+	}
+
+	// 12 соседей: общая сторона или вершина.
+	// У треугольника вершиной вверх основание касается 5 клеток нижней строки,
+	// а вершина - 3 клеток верхней. У перевернутого наоборот
+	public getSiblings({ row, col }: Position): TriangleCell[] {
+		const isUp = this.getCell({ row, col }).orientation === 'up'
+		const spans: [dy: number, reach: number][] = [
+			[-1, isUp ? 1 : 2],
+			[0, 2],
+			[1, isUp ? 2 : 1],
+		]
+
+		const siblings: TriangleCell[] = []
+		for (const [dy, reach] of spans) {
+			for (let dx = -reach; dx <= reach; dx++) {
+				if (dx === 0 && dy === 0) continue
+				const position = { col: col + dx, row: row + dy }
+				if (this.isInBoundary(position)) {
+					siblings.push(this.getCell(position))
+				}
+			}
+		}
+		return siblings
+	}
+
+	public cloneSelf() {
+		return new TriangleField({
+			rng: this.rng,
+			params: this.params,
+			data: this.grid,
+		})
+	}
+}
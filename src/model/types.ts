@@ -2,6 +2,7 @@ export type GameParams = {
 	cols: number
 	rows: number
 	mines: number
+	maxMinesPerCell?: number // больше 1 - в клетке бывает несколько мин
 }
 
 export type Position = {
@@ -9,7 +10,28 @@ export type Position = {
 	row: number
 }
 
-export type FieldType = 'square'
+export type FieldType = 'square' | 'hex' | 'triangle'
+
+// Ориентация треугольной клетки: вершиной вверх или вниз
+export type CellOrientation = 'up' | 'down'
+
+// Способ хранения шестиугольного поля в сетке rows x cols
+export type HexLayout = 'odd-r' | 'even-r' | 'odd-q' | 'even-q' | 'axial'
+
+// Края квадратного поля: clip - обрезаны, wrap - склеены обе пары (тор),
+// wrap-horizontal - склеены левый и правый, wrap-vertical - верхний и нижний
+export type BoundaryMode = 'clip' | 'wrap' | 'wrap-horizontal' | 'wrap-vertical'
+
+// Окрестность клетки квадратного поля: moore - 8 соседей, von-neumann - 4
+// по сторонам, knight - ходы коня, extended - квадрат 5x5. Или свой список
+// смещений { row, col } от клетки, в том числе несимметричный
+export type NeighbourhoodPreset =
+	'moore' | 'von-neumann' | 'knight' | 'extended'
+export type NeighbourhoodKernel = NeighbourhoodPreset | Position[]
+
+// Форма поля: true - клетка есть, false - дыра. Или ASCII-строка,
+// где '#' - клетка, '.' - дыра, по строке текста на ряд поля
+export type BoardMask = boolean[][] | string
 
 export enum GameStatus {
 	Idle = 'idle',
@@ -18,20 +40,75 @@ export enum GameStatus {
 	Lost = 'lost',
 }
 
-export type GameMode = 'guessing'
+export type GameMode = 'guessing' | 'no-guessing'
+
+// Что гарантируется при первом клике:
+// safe-cell - клетка без мины, safe-opening - клетка и все ее соседи без мин
+export type FirstClickPolicy = 'safe-cell' | 'safe-opening' | 'none'
+
+// Кто может снять флаг: только поставивший его игрок или любой
+export type FlagOwnership = 'owner' | 'shared'
+
+export interface GenerationOptions {
+	maxAttempts?: number // сколько раскладок пробуем до отката на обычную
+	timeLimit?: number // бюджет времени на генерацию, мс; по умолчанию без лимита
+}
+
+export interface GenerationReport {
+	mode: GameMode
+	attempts: number
+	elapsed: number
+	isFallback: boolean // не уложились в бюджет - раскладка обычная, возможны угадывания
+}
 
 export interface CellData {
 	key: string
 	position: Position
 	isMine: boolean
-	adjacentMines: number
+	mineCount: number // мин в клетке, 0 или 1 при maxMinesPerCell = 1
+	adjacentMines: number // сумма мин у соседей
 	notFoundMine: boolean
 	isRevealed: boolean
 	isFlagged: boolean
+	flagCount: number // на сколько мин поставлен флаг
+	isQuestioned: boolean // вопросительный знак (questionMarks)
+	isHole: boolean // клетки нет (mask): без мин, не открывается, не сосед
 	isEmpty: boolean
 	isExploded: boolean
 	isMissed: boolean
 	isUntouched: boolean
+	flaggedBy?: string // кто поставил флаг (совместная игра)
+	orientation?: CellOrientation // только для type: 'triangle'
+}
+
+// Клетка во входном data (FactoryConfig, Puzzle): подходит и CellData
+// из снимка, и клетка, собранная вручную. Недостающие поля (mineCount,
+// flagCount, isQuestioned, isHole и др.) берутся по умолчанию
+export type CellDataInput = Partial<CellData> & Pick<CellData, 'position'>
+
+// Клетка глазами игрока: закрытая клетка не раскрывает ни мину, ни цифру
+export interface PlayerCell {
+	position: Position
+	isRevealed: boolean
+	isFlagged: boolean
+	flagCount: number
+	isQuestioned: boolean
+	isHole: boolean
+	isExploded: boolean // открытая мина
+	adjacentMines: number | null // только у открытых клеток без мины
+	mineCount?: number // только у взорванных клеток с несколькими минами
+	flaggedBy?: string
+	orientation?: CellOrientation // только для type: 'triangle'
+}
+
+// Поле без скрытых данных: размеры, открытые цифры и флаги
+export interface PlayerView {
+	type: FieldType
+	params: GameParams
+	layout?: HexLayout
+	boundary?: BoundaryMode
+	neighbourhood?: NeighbourhoodKernel
+	cells: PlayerCell[][]
 }
 
 export interface MineProbability {
@@ -39,11 +116,123 @@ export interface MineProbability {
 	position: Position
 }
 
+export type HintType = 'reveal' | 'flag' | 'guess'
+
+// Правило, по которому получена подсказка
+export type HintRule =
+	| 'first-click' // партия не начата, первый клик безопасен
+	| 'all-mines-found' // у цифры уже найдены все мины, остальные соседи безопасны
+	| 'all-closed-are-mines' // закрытых соседей ровно столько, сколько показывает цифра
+	| 'constraint-analysis' // следует только из сочетания нескольких цифр
+	| 'lowest-risk' // верных ходов нет, клетка с наименьшей вероятностью мины
+
+export interface HintReason {
+	rule: HintRule
+	source?: Position // клетка с цифрой, из которой следует ход
+	value?: number // цифра на ней
+	knownMines?: number // сколько соседних мин уже известно
+	flaggedMines?: number // сколько из них помечено флагами
+	related?: Position[] // клетки с цифрами, участвующие в выводе
+	message: string
+}
+
+export interface Hint {
+	type: HintType
+	position: Position
+	probability: number // вероятность мины в клетке
+	reason: HintReason
+}
+
+export interface HintResult {
+	data: Hint
+	apply: () => void // принять подсказку: сделать ход и учесть ее в статистике
+}
+
+export type GuessStrategyName =
+	| 'lowest-probability' // наименьшая вероятность мины
+	| 'corner-first' // среди почти самых безопасных - клетка с меньшим числом соседей
+	| 'information-gain' // больше всего открывает о неизвестных соседях
+
+// Данные для выбора догадки, когда верных ходов нет
+export interface GuessContext {
+	candidates: MineProbability[] // закрытые клетки без флагов, кроме точных мин
+	view: PlayerView
+	getSiblings: (position: Position) => PlayerCell[]
+}
+
+export type GuessStrategy = (context: GuessContext) => Position
+
+export interface AutoPlayerOptions {
+	strategy?: GuessStrategyName | GuessStrategy
+	start?: Position // первый клик, по умолчанию центр поля
+	flagMines?: boolean // ставить флаги на точные мины
+}
+
+export interface AutoPlayerMove {
+	type: 'first-click' | 'reveal' | 'flag' | 'guess'
+	position: Position
+	probability: number // вероятность мины в клетке на момент хода
+	status: GameStatus // статус игры после хода
+}
+
+export interface AutoPlayerRun {
+	status: GameStatus
+	moves: number
+	guesses: number
+	elapsed: number // мс на всю партию
+}
+
+export interface BenchmarkOptions extends AutoPlayerOptions {
+	games?: number
+	firstSeed?: number // партия i играется с зерном firstSeed + i
+}
+
+export interface BenchmarkSummary {
+	games: number
+	wins: number
+	winRate: number
+	guessesPerGame: number
+	averageMoveTime: number // мс
+}
+
+// Быстрая проверка доски: клетки фронтира, на которых решатель
+// застрял впервые (0 < p < 1). Пуст и у решаемой доски, и у доски,
+// где все закрытые клетки фронтира - точные мины
+export interface SolvabilityCheck {
+	isSolvable: boolean
+	guessCells: Position[]
+}
+
+export interface BoardAnalysis {
+	bbbv: number
+	openings: number // связные области пустых клеток
+	isolatedNumbers: number // цифры, не граничащие ни с одним окном
+	isSolvable: boolean // решается без угадываний от стартовой клетки
+	forcedGuesses: number // сколько раз идеальному решателю пришлось угадывать
+}
+
+// Накопительные счетчики партии, попадают в сохранение
+export interface GameCounters {
+	hintsUsed: number
+	hintCost: number
+	effectiveClicks: number // клики, которые что-то изменили
+	wastedClicks: number // клики без изменений на поле
+}
+
+export interface GameStats extends GameCounters {
+	clicks: number
+	elapsed: number // мс с первого открытия, останавливается на Won/Lost
+	bbbv: number // 3BV доски, 0 до первого клика
+	solvedBbbv: number // сколько из 3BV уже открыто
+	bbbvPerSecond: number
+}
+
 export interface FieldState {
 	field: CellData[][]
 	minedCells: CellData[]
 	explodedCells: CellData[]
 	flaggedCells: CellData[]
+	questionedCells: CellData[]
 	notFoundMines: CellData[]
 	errorFlags: CellData[]
 	revealedCells: CellData[]
@@ -52,26 +241,35 @@ export interface FieldState {
 export interface ConstructorCellProps {
 	position: Position
 	isMine?: boolean
+	mineCount?: number // важнее isMine
 	isRevealed?: boolean
 	isFlagged?: boolean
+	flagCount?: number // важнее isFlagged
+	isQuestioned?: boolean
+	isHole?: boolean
 	adjacentMines?: number
+	flaggedBy?: string
 }
 
 export interface ConstrutorFieldProps {
 	params: GameParams
 	rng?: () => number
-	data?: CellData[][]
+	data?: CellDataInput[][]
 }
 
 export interface GameSnapshot extends FieldState {
 	status: GameStatus
+	stats: GameStats
 }
 
 export interface ActionChanges {
+	actor?: string // игрок, который сделал ход
 	target: CellData
 	handledCells: CellData[]
 	flaggedCells: CellData[]
 	unflaggedCells: CellData[]
+	questionedCells: CellData[]
+	unquestionedCells: CellData[]
 	revealedCells: CellData[]
 	explodedCells: CellData[]
 }
@@ -81,6 +279,7 @@ export interface ActionResult {
 	data: {
 		actionSnapshot: GameSnapshot
 		actionChanges: ActionChanges
+		generationReport?: GenerationReport
 	}
 }
 
@@ -88,9 +287,304 @@ export interface FactoryConfig {
 	params: GameParams
 	type: FieldType
 	rng?: () => number
-	data?: CellData[][]
+	data?: CellDataInput[][]
+	layout?: HexLayout // только для type: 'hex'
+	boundary?: BoundaryMode // только для type: 'square'
+	neighbourhood?: NeighbourhoodKernel // только для type: 'square'
+	mask?: BoardMask
 }
 
 export interface MineSweeperConfig extends FactoryConfig {
 	mode?: GameMode
+	generation?: GenerationOptions
+	historyDepth?: number // сколько действий можно отменить, 0 - без истории
+	seed?: string | number // зерно встроенного генератора, игнорируется при rng
+	firstClick?: FirstClickPolicy
+	hintCost?: number // стоимость одной подсказки в статистике
+	clock?: () => number // источник времени в мс, по умолчанию Date.now
+	flagOwnership?: FlagOwnership
+	questionMarks?: boolean // toggleFlag по кругу: нет -> флаг -> вопрос -> нет
+}
+
+// Все, что нужно, чтобы воспроизвести одну и ту же доску
+export interface BoardInfo {
+	type: FieldType
+	params: GameParams
+	layout?: HexLayout
+	boundary?: BoundaryMode
+	// Раскладка зависит от режима и политики первого клика
+	mode?: GameMode
+	firstClick?: FirstClickPolicy
+	seed: number
+}
+
+export type HistoryAction = 'undo' | 'redo'
+
+export interface ActionEvent {
+	changes: ActionChanges
+	status: GameStatus
+}
+
+export interface StatusChangeEvent {
+	from: GameStatus
+	to: GameStatus
+	changes: ActionChanges
+}
+
+// События GameEngine и данные, с которыми они приходят
+export interface GameEventMap {
+	reveal: ActionEvent
+	flag: ActionEvent
+	explode: ActionEvent
+	statusChange: StatusChangeEvent
+	win: ActionEvent
+	lose: ActionEvent
+}
+
+export type GameEventType = keyof GameEventMap
+
+// Общее уведомление об изменении состояния (subscribe)
+export interface StateUpdate {
+	source: 'action' | HistoryAction
+	changes: ActionChanges
+	snapshot: GameSnapshot
+}
+
+export interface HistoryResult {
+	action: HistoryAction
+	changes: ActionChanges // изменения, которые были отменены (undo) или повторены (redo)
+	snapshot: GameSnapshot
+}
+
+// Состояние клетки, которое попадает в сохранение. Цифры пересчитываются
+export interface SavedCell {
+	isMine: boolean
+	mineCount?: number
+	isRevealed: boolean
+	isFlagged: boolean
+	flagCount?: number
+	isQuestioned?: boolean
+}
+
+export interface GameSave {
+	type: FieldType
+	params: GameParams
+	layout?: HexLayout
+	boundary?: BoundaryMode
+	neighbourhood?: NeighbourhoodKernel
+	mask?: string // в ASCII-виде
+	mode: GameMode
+	firstClick?: FirstClickPolicy
+	status: GameStatus
+	flagsRemaining: number
+	seed?: number
+	rngState?: number
+	flagOwnership?: FlagOwnership
+	flaggedBy?: Record<string, string> // владельцы флагов по ключу клетки
+	mineCounts?: Record<string, number> // клетки с несколькими минами
+	flagCounts?: Record<string, number> // клетки с флагом на несколько мин
+	questionMarks?: boolean
+	elapsed?: number
+	stats?: GameCounters
+	cells: SavedCell[][]
+}
+
+export interface DeserializeOptions {
+	rng?: () => number
+	clock?: () => number
+}
+
+export type MoveType = 'reveal' | 'chord' | 'flag' | 'undo' | 'redo'
+
+export interface MoveRecord {
+	type: MoveType
+	position?: Position // нет у undo/redo
+	actor?: string
+	timestamp: number
+	status: GameStatus // статус игры после хода
+	// Раскладка после первого клика - у хода, который начал партию.
+	// После отмены до Idle новый первый клик дает новую раскладку
+	mines?: Position[]
+}
+
+export interface MoveLog {
+	version: number
+	type: FieldType
+	params: GameParams
+	layout?: HexLayout
+	boundary?: BoundaryMode
+	neighbourhood?: NeighbourhoodKernel
+	mask?: string // в ASCII-виде
+	mode: GameMode
+	seed?: number
+	firstClick?: FirstClickPolicy
+	flagOwnership?: FlagOwnership
+	questionMarks?: boolean
+	// Раскладка после последнего первого клика, пустая до него.
+	// Клетка с k минами - k раз
+	mines: Position[]
+	revealed?: Position[] // клетки, открытые до первого хода (головоломка)
+	moves: MoveRecord[]
+}
+
+export type SessionCommandType = 'reveal' | 'flag' | 'chord'
+
+// Команда клиента. seq растет с каждой командой этого клиента,
+// повторы и устаревшие команды отклоняются
+export interface SessionCommand {
+	type: SessionCommandType
+	position: Position
+	seq: number
+}
+
+export type SessionRejectReason =
+	| 'invalid-command' // не команда или неизвестный тип
+	| 'duplicate' // seq не больше уже обработанного
+	| 'out-of-bounds'
+	| 'invalid-target' // клетка не подходит для команды
+	| 'game-over'
+
+// Изменения без скрытых данных: клетки в том виде, в каком их видит игрок
+export interface PlayerChanges {
+	revealedCells: PlayerCell[]
+	explodedCells: PlayerCell[]
+	flaggedCells: PlayerCell[]
+	unflaggedCells: PlayerCell[]
+	questionedCells: PlayerCell[]
+	unquestionedCells: PlayerCell[]
+}
+
+// Полное состояние для нового или отставшего клиента
+export interface SnapshotMessage {
+	type: 'snapshot'
+	seq: number // номер последнего изменения на сервере
+	commandSeq: number // последняя обработанная команда этого клиента
+	view: PlayerView
+	status: GameStatus
+	flagsRemaining: number
+}
+
+export interface DeltaMessage {
+	type: 'delta'
+	seq: number
+	actor: string | null // null - ход сделан в обход сессии
+	changes: PlayerChanges
+	status: GameStatus
+	flagsRemaining: number
+}
+
+export interface AckMessage {
+	type: 'ack'
+	commandSeq: number
+	seq: number // номер изменения после команды
+}
+
+export interface RejectMessage {
+	type: 'reject'
+	commandSeq: number | null // null, если команду не удалось разобрать
+	reason: SessionRejectReason
+}
+
+export type SessionMessage =
+	| SnapshotMessage
+	| DeltaMessage
+	| AckMessage
+	| RejectMessage
+
+// Сторона сервера, которую транспорт вызывает на события клиентов
+export interface SessionHandler {
+	connect: (playerId: string, lastSeq?: number) => void
+	disconnect: (playerId: string) => void
+	receive: (playerId: string, command: unknown) => void
+}
+
+export interface SessionTransport {
+	attach: (handler: SessionHandler) => void
+	send: (playerId: string, message: SessionMessage) => void
+}
+
+export interface GameSessionOptions {
+	catchUpLimit?: number // сколько последних изменений хранится для догоняющих клиентов
+}
+
+export type RaceStatus = 'waiting' | 'running' | 'finished'
+
+export interface RaceConfig extends Omit<MineSweeperConfig, 'rng' | 'data'> {
+	players: string[]
+	start?: Position // общий первый клик, по умолчанию центр поля
+}
+
+export interface RaceStanding {
+	playerId: string
+	rank: number
+	status: GameStatus
+	revealedCells: number // открытые клетки без мин
+	safeCells: number // сколько всего клеток без мин
+	bbbv: number
+	solvedBbbv: number
+	progress: number // доля решенного 3BV, от 0 до 1
+	elapsed: number // мс с общего старта
+}
+
+// free - ходят все и в любом порядке, round-robin - по очереди,
+// ход переходит после каждого действия, которое изменило поле
+export type TurnOrder = 'free' | 'round-robin'
+
+// Очки за открытую клетку, за верный флаг (считаются по окончании партии)
+// и за взорванную мину
+export interface CoopScoring {
+	reveal?: number
+	flag?: number
+	explode?: number
+}
+
+export interface CoopOptions {
+	players: string[]
+	turnOrder?: TurnOrder
+	scoring?: CoopScoring
+}
+
+export interface PlayerScore {
+	playerId: string
+	revealedCells: number
+	explodedCells: number
+	flags: number // флаги игрока на поле сейчас
+	correctFlags: number // флаги на минах, 0 до конца партии
+	score: number
+}
+
+// Головоломка вручную: раскладка мин и открытые с начала клетки.
+// Вместо mines и revealed можно передать готовое поле data
+export interface PuzzleConfig
+	extends Omit<MineSweeperConfig, 'data' | 'mode' | 'firstClick'> {
+	mines?: Position[] // клетка с k минами - k раз
+	revealed?: Position[]
+	data?: CellDataInput[][] // цифры в нем сверяются с раскладкой
+	// false - достаточно, чтобы головоломка решалась без догадок,
+	// даже если открытым с начала цифрам подходит несколько раскладок
+	requireUniqueSolution?: boolean
+}
+
+export type PuzzleIssueType =
+	| 'size-mismatch' // data не совпадает с rows x cols
+	| 'out-of-bounds' // позиция за краем поля или в дыре
+	| 'mine-count' // мин не столько, сколько в params.mines
+	| 'overfilled-cell' // мин в клетке больше maxMinesPerCell
+	| 'wrong-number' // adjacentMines в data не совпадает с раскладкой
+	| 'revealed-mine'
+	| 'nothing-revealed'
+	| 'multiple-solutions' // открытым цифрам подходит больше одной раскладки
+	| 'needs-guessing' // без догадки до победы не дойти
+
+export interface PuzzleIssue {
+	type: PuzzleIssueType
+	position?: Position
+	message: string
+}
+
+export interface PuzzleValidation {
+	isValid: boolean
+	uniqueSolution: boolean
+	noGuessing: boolean
+	issues: PuzzleIssue[]
 }